@@ -1,401 +1,976 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import GameBoard from './components/GameBoard';
-import { Player, Card, Phase, TurnPhase, GameState, CardType, RequirementType, Meld, NetworkMessage, NetworkActionPayload } from './types';
-import { STANDARD_PHASES, TOTAL_ROUNDS, HAND_SIZE, BOT_NAMES, DEFAULT_TURN_DURATION } from './constants';
-import { generatePhases } from './services/geminiService';
-import { createDeck, shuffleDeck, dealCards, validatePhaseHand, calculateScore, canAddToMeld } from './utils/gameUtils';
-
-// Helper to access PeerJS since it's loaded via CDN
-const getPeer = () => (window as any).Peer;
+import SyncDebugPanel from './components/SyncDebugPanel';
+import { Player, Card, Phase, TurnPhase, GameState, CardType, Meld, NetworkMessage, NetworkActionPayload, NetworkActionType, GameSnapshot, GameEvent, ActionResult, ActionRejection, GameRules, BotDifficulty, PhasePackReport, MeldIssue, HostBackup, HandSortMode, LobbySeat, LobbySettings, LobbyState, StateUpdatePayload, SyncStats, TransportConnection, TransportEndpoint, TransportId } from './types';
+import { STANDARD_PHASES, BOT_NAMES, DEFAULT_TURN_DURATION, ACTION_RESPONSE_TIMEOUT, RECONNECT_GRACE_PERIOD, HOST_MIGRATION_RETRY_DELAY, HOST_MIGRATION_ATTEMPTS, TURN_AWAY_CLOSE_DELAY, CLASSIC_RULES, RULE_PRESETS, MIN_PLAYERS, MAX_PLAYERS, BOT_PROFILES } from './constants';
+import { getPhaseProviders } from './services/phaseProviders';
+import { PlayerSession, getLastSession, getSessionForRoom, setSessionHostGeneration, setSessionSeat } from './services/sessionStore';
+import { getTransport, getTransports } from './services/transports';
+import { addSeat, applyAction, assignBotStandIn, createGameSnapshot, getStandings, isBotControlled, redactPlayers, seatHuman, setSeatConnected, visibleDiscards } from './utils/gameEngine';
+import { parseClientMessage, parseHostMessage, readActionId } from './utils/networkSchema';
+import { applyPlayerChanges, diffStateView, hashPublicState, isEmptyDelta } from './utils/stateSync';
+import { PhaseHint, findPhaseHint, pickPhases } from './utils/gameUtils';
+import { arrangeHand, moveCard, sortHand } from './utils/handOrder';
+import { playBotTurn } from './utils/botPlayer';
+import { createRng, generateSeed, hashSeed, shuffle } from './utils/random';
+import { sessionVerifier } from './utils/sessionVerifier';
+
+// Each successor host listens under a new id derived from the room code, so clients can find it
+const hostPeerId = (code: string, generation: number = 0) => (generation === 0 ? `ipr-game-${code}` : `ipr-game-${code}-${generation}`);
 
 interface ConnectedClient {
-  connection: any;
+  connection: TransportConnection | null; // Null for seats waiting to reconnect to a new host
   peerId: string;
   name: string;
+  sessionVerifier?: string; // Host side: hash of the token the client must present to reclaim this seat
+  ready?: boolean; // Lobby only
+  spectator?: boolean; // Watching without a seat
+}
+
+const EMPTY_SYNC_STATS: SyncStats = { updates: 0, deltas: 0, gaps: 0, desyncs: 0, resyncs: 0, lastSeq: null, lastHash: null };
+
+// Ids the host gives out itself. A client claiming one would be handed that seat's cards.
+const isReservedSeatId = (playerId: string) => playerId === 'host' || playerId.startsWith('bot-');
+
+// A client action the host hasn't answered yet
+interface PendingAction {
+  id: string;
+  action: NetworkActionType;
 }
 
 const App: React.FC = () => {
   // App State
-  const [gameState, setGameState] = useState<GameState>(GameState.LOBBY);
-  const [phases, setPhases] = useState<Phase[]>(STANDARD_PHASES);
   const [themeInput, setThemeInput] = useState<string>("");
   const [loadingMessage, setLoadingMessage] = useState<string>("");
   const [notification, setNotification] = useState<string>("");
-  
+
   // Multiplayer UI State
   const [isMultiplayer, setIsMultiplayer] = useState(false);
-  const [roomCode, setRoomCode] = useState("");
-  const [playerName, setPlayerName] = useState("Player 1");
+  const [roomCode, setRoomCode] = useState(() => getLastSession()?.roomCode || "");
+  const [playerName, setPlayerName] = useState(() => getLastSession()?.name || "Player 1");
   const [showRoom, setShowRoom] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [isHost, setIsHost] = useState(false);
   const [connectedClients, setConnectedClients] = useState<ConnectedClient[]>([]);
+  const [seatOrder, setSeatOrder] = useState<string[]>([]); // Host: table order picked in the lobby
+  const [lobby, setLobby] = useState<LobbyState | null>(null); // Client: the lobby as the host sees it
+  const [followedId, setFollowedId] = useState<string | null>(null); // Spectator: whose side of the table we watch
 
   // Refs for Multiplayer
-  const peerRef = useRef<any>(null);
+  const [transportId, setTransportId] = useState<TransportId>(() => getTransports()[0]?.id || 'BROADCAST');
+  const endpointRef = useRef<TransportEndpoint | null>(null);
   const connectionsRef = useRef<ConnectedClient[]>([]);
   const myPlayerIdRef = useRef<string>('p1');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const pendingActionRef = useRef<PendingAction | null>(null);
+  const pendingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const actionCounterRef = useRef(0);
+  const standInTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map()); // Host: disconnected seats awaiting a bot
+  const sessionRef = useRef<PlayerSession | null>(null); // Client: the seat we hold in this room
+  const hostGenerationRef = useRef(0);
+  const migrationRef = useRef<{ successorId: string | null; backup?: HostBackup }>({ successorId: null }); // Client: who hosts next
+  const lastBackupRef = useRef<{ snapshot: GameSnapshot; successorId: string } | null>(null); // Host: what the successor already has
+  const syncRef = useRef<Map<TransportConnection, { seq: number; view: StateUpdatePayload | null }>>(new Map()); // Host: last view sent on each connection
+  const lastSeqRef = useRef<number | null>(null); // Client: last state update applied, null until a full view arrives
+  const resyncRequestedRef = useRef(false);
+  const kickedSessionsRef = useRef<Set<string>>(new Set()); // Host: verifiers of sessions removed from the lobby
+  const [syncStats, setSyncStats] = useState<SyncStats>(EMPTY_SYNC_STATS);
 
   // Settings
   const [turnDuration, setTurnDuration] = useState<number>(DEFAULT_TURN_DURATION);
+  const [seedInput, setSeedInput] = useState<string>("");
+  const [rules, setRules] = useState<GameRules>(CLASSIC_RULES);
+  const [botCount, setBotCount] = useState<number>(CLASSIC_RULES.tableSize - 1);
+  const [maxPlayers, setMaxPlayers] = useState<number>(CLASSIC_RULES.tableSize);
+  const [botDifficulties, setBotDifficulties] = useState<BotDifficulty[]>(Array(MAX_PLAYERS).fill('NORMAL'));
   const [timeLeft, setTimeLeft] = useState<number>(DEFAULT_TURN_DURATION);
+  const [turnDeadline, setTurnDeadline] = useState<number | null>(null); // When the current turn times out, on this machine's clock
 
-  // Game State
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [deck, setDeck] = useState<Card[]>([]);
-  const [discardPile, setDiscardPile] = useState<Card[]>([]);
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState<number>(0);
-  const [turnPhase, setTurnPhase] = useState<TurnPhase>(TurnPhase.DRAW);
+  // Game State: one snapshot owned by the engine. The ref always holds the latest
+  // snapshot so callbacks registered earlier (timers, transport) never act on stale data.
+  const [game, setGame] = useState<GameSnapshot>(() => createGameSnapshot([], STANDARD_PHASES, generateSeed(), CLASSIC_RULES));
+  const gameRef = useRef<GameSnapshot>(game);
   const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
-  const [roundWinnerId, setRoundWinnerId] = useState<string | null>(null);
+  // Our own hand layout: a sort mode keeps applying as cards come and go, a drag pins a custom order
+  const [handLayout, setHandLayout] = useState<{ mode: HandSortMode | null; order: string[] }>({ mode: null, order: [] });
+  const [meldIssues, setMeldIssues] = useState<MeldIssue[]>([]); // Why the last meld attempt failed
+  const [hint, setHint] = useState<PhaseHint | null>(null);
+  const [generatingGame, setGeneratingGame] = useState(false);
+  const [generatedPack, setGeneratedPack] = useState<PhasePackReport | null>(null); // Repaired AI phases awaiting review
+
+  const { players, deck, discardPile, currentPlayerIndex, turnPhase, phases, roundWinnerId } = game;
+  const gameState = generatingGame ? GameState.GENERATING : game.gameState;
 
   // Refs for bot delays and timers
   const botTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const notificationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // --- State Dispatch ---
+
+  const commitGame = (next: GameSnapshot) => {
+    gameRef.current = next;
+    setGame(next);
+  };
+
+  const announceEvents = (events: GameEvent[], actorId?: string) => {
+    const snapshot = gameRef.current;
+    const nameOf = (id: string) => snapshot.players.find(p => p.id === id)?.name || 'A player';
+
+    events.forEach(event => {
+      switch (event.type) {
+        case 'ROUND_STARTED': {
+          const me = snapshot.players.find(p => p.id === myPlayerIdRef.current) || snapshot.players[0];
+          setNotification("Round Started! Phase: " + snapshot.phases[me.phaseIndex].name);
+          break;
+        }
+        case 'PLAYER_SKIPPED':
+          setNotification(`${nameOf(event.playerId)} was skipped!`);
+          break;
+        case 'PHASE_COMPLETED':
+          if (event.playerId === myPlayerIdRef.current) setNotification("Phase Completed! You can now hit on melds or discard.");
+          break;
+        case 'CARD_HIT':
+          if (actorId === myPlayerIdRef.current) setNotification("Card added to phase!");
+          break;
+      }
+    });
+  };
+
+  // Local and host-reported rejections look the same to the player
+  const showRejection = (rejection: ActionRejection) => {
+    setNotification(rejection.message);
+    setMeldIssues(rejection.issues || []);
+  };
+
+  // Runs an action through the engine. Rejections are only surfaced for the local player.
+  const dispatch = (action: NetworkActionPayload): ActionResult => {
+    const result = applyAction(gameRef.current, action);
+    if (result.ok === false) {
+      if (!action.playerId || action.playerId === myPlayerIdRef.current) showRejection(result.rejection);
+      return result;
+    }
+
+    commitGame(result.state);
+    announceEvents(result.events, action.playerId);
+    if (action.playerId === myPlayerIdRef.current) {
+      setSelectedCardIds([]);
+      setMeldIssues([]);
+    }
+    return result;
+  };
+
   // --- Multiplayer Setup ---
 
   const generateRoomCode = () => Math.random().toString(36).substring(2, 7).toUpperCase();
 
+  // Transport callbacks are registered once, so they call through these refs to reach the latest handlers
+  const networkHandlerRef = useRef<(data: unknown, conn: TransportConnection) => void>(() => {});
+  const closeHandlerRef = useRef<(conn: TransportConnection) => void>(() => {});
+  const hostLostRef = useRef<(conn: TransportConnection) => void>(() => {});
+
+  const transport = getTransport(transportId);
+
+  // Opens the room under `hostId` and routes every client connection through the host handlers
+  const openHostEndpoint = (hostId: string, onReady?: () => void): TransportEndpoint => transport!.open(hostId, {
+     onReady,
+     onConnection: conn => {
+         // Expecting first data to be player name
+         conn.onOpen(() => conn.onMessage(data => networkHandlerRef.current(data, conn)));
+         conn.onClose(() => closeHandlerRef.current(conn));
+     },
+     onError: message => setNotification("Connection error: " + message)
+  });
+
   const createRoom = () => {
-     if (!getPeer()) {
-         setNotification("PeerJS library not loaded.");
+     if (!transport?.isAvailable()) {
+         setNotification("That connection type isn't available in this browser.");
          return;
      }
 
      const code = generateRoomCode();
      setRoomCode(code);
+     setSyncStats(EMPTY_SYNC_STATS);
+     kickedSessionsRef.current = new Set();
+     setSeatOrder([]);
      setIsHost(true);
      setPlayerName(playerName || "Host");
      myPlayerIdRef.current = 'host';
+     hostGenerationRef.current = 0;
 
-     const peer = new (getPeer())(`ipr-game-${code}`);
-     peerRef.current = peer;
-
-     peer.on('open', (id: string) => {
+     endpointRef.current?.close();
+     endpointRef.current = openHostEndpoint(hostPeerId(code), () => {
          setShowRoom(true);
          setNotification(`Room created! Code: ${code}`);
      });
+  };
 
-     peer.on('connection', (conn: any) => {
-         conn.on('open', () => {
-             // Expecting first data to be player name
-             conn.on('data', (data: NetworkMessage) => {
-                handleNetworkMessage(data, conn);
-             });
-         });
-     });
+  // Opens a connection to whoever hosts the room and claims our seat. Returns the pending connection.
+  const connectToHost = (endpoint: TransportEndpoint, session: PlayerSession, onOpen: () => void): TransportConnection | null => {
+    const conn = endpoint.connect(hostPeerId(session.roomCode, session.hostGeneration));
+    if (!conn) return null;
 
-     peer.on('error', (err: any) => {
-         console.error("Peer error:", err);
-         setNotification("Connection error: " + err.type);
-     });
+    conn.onOpen(() => {
+        // Only an open connection counts as our host, so a failed attempt never looks like a lost host
+        connectionsRef.current = [{ connection: conn, peerId: 'host', name: 'Host' }];
+        lastSeqRef.current = null; // Each host numbers its updates afresh
+        resyncRequestedRef.current = false;
+        onOpen();
+
+        // Send Join Info
+        const joinMsg: NetworkMessage = {
+            type: 'PLAYER_JOINED',
+            payload: { name: session.name, playerId: session.playerId, sessionToken: session.token, ...(session.spectator ? { spectator: true } : {}) }
+        };
+        conn.send(joinMsg);
+    });
+
+    // Listen for State Updates
+    conn.onMessage(data => networkHandlerRef.current(data, conn));
+    conn.onClose(() => hostLostRef.current(conn));
+    return conn;
   };
 
-  const joinRoom = () => {
+  const joinRoom = (spectate: boolean = false) => {
     if(roomCode.length < 5) {
         setNotification("Please enter a valid 5-character code.");
         return;
     }
-    if (!getPeer()) return;
-    
+    if (!transport?.isAvailable()) {
+        setNotification("That connection type isn't available in this browser.");
+        return;
+    }
+
     setIsJoining(true);
     setIsHost(false);
-    myPlayerIdRef.current = `p-${Date.now()}`;
-
-    const peer = new (getPeer())();
-    peerRef.current = peer;
-
-    peer.on('open', () => {
-        const conn = peer.connect(`ipr-game-${roomCode}`);
-        if (!conn) {
-            setIsJoining(false);
-            setNotification("Could not create connection.");
-            return;
-        }
-
-        conn.on('open', () => {
-            setIsJoining(false);
-            setShowRoom(true);
-            setNotification("Connected to room!");
-            
-            // Send Join Info
-            const joinMsg: NetworkMessage = {
-                type: 'PLAYER_JOINED',
-                payload: { name: playerName, playerId: myPlayerIdRef.current }
-            };
-            conn.send(joinMsg);
-
-            // Listen for State Updates
-            conn.on('data', (data: NetworkMessage) => {
-                handleNetworkMessage(data, conn);
+    // Rejoining the same room reuses the stored seat, so a refresh doesn't orphan it
+    const session = { ...getSessionForRoom(roomCode, playerName.trim() || "Player"), spectator: spectate };
+    myPlayerIdRef.current = session.playerId;
+    sessionRef.current = session;
+    migrationRef.current = { successorId: null };
+    setSyncStats(EMPTY_SYNC_STATS);
+
+    let joined = false;
+    endpointRef.current?.close();
+    const endpoint = transport.open(null, {
+        onReady: () => {
+            const conn = connectToHost(endpoint, session, () => {
+                joined = true;
+                setIsJoining(false);
+                setShowRoom(true);
+                setNotification(spectate ? "Connected! You're watching this room." : "Connected to room!");
             });
-        });
-
-        conn.on('error', (err: any) => {
+            if (!conn) {
+                setIsJoining(false);
+                setNotification("Could not create connection.");
+            }
+        },
+        // Once in, failed reconnection attempts are handled by the migration retries
+        onError: () => {
+            if (joined) return;
             setIsJoining(false);
             setNotification("Failed to join room. Check code.");
-        });
-        
-        // Save host connection
-        connectionsRef.current = [{ connection: conn, peerId: 'host', name: 'Host' }];
+        }
     });
+    endpointRef.current = endpoint;
+  };
+
+  const toggleReady = (ready: boolean) => {
+    const hostConn = connectionsRef.current[0]?.connection;
+    if (hostConn?.open) hostConn.send({ type: 'SET_READY', payload: { ready } });
+  };
+
+  // Hanging up is enough: a host frees lobby seats as soon as their connections close
+  const leaveRoom = () => {
+    connectionsRef.current = []; // Leaving on purpose, so nothing tries to reconnect
+    endpointRef.current?.close();
+    endpointRef.current = null;
+    setConnectedClients([]);
+    setLobby(null);
+    setSeatOrder([]);
+    setShowRoom(false);
+    setIsHost(false);
   };
 
-  const broadcastState = (overrideState?: any) => {
+  // The first update on a connection carries the whole view; later ones only what changed since.
+  // A discarded view (after a resync request) means a full view again, but the numbering carries on.
+  const sendState = (conn: TransportConnection, view: StateUpdatePayload, hash?: string, backup?: HostBackup) => {
+      const last = syncRef.current.get(conn);
+      const prevView = last?.view;
+      const payload = prevView ? diffStateView(prevView, view) : view;
+      if (prevView && isEmptyDelta(payload) && !backup) return;
+
+      const seq = (last?.seq || 0) + 1;
+      syncRef.current.set(conn, { seq, view });
+      conn.send({
+          type: prevView ? 'STATE_DELTA' : 'STATE_UPDATE',
+          payload: backup ? { ...payload, backup } : payload,
+          seq,
+          sentAt: Date.now(),
+          ...(hash ? { hash } : {})
+      });
+      setSyncStats(stats => ({ ...stats, updates: stats.updates + 1, deltas: stats.deltas + (prevView ? 1 : 0), lastHash: hash || stats.lastHash }));
+  };
+
+  const broadcastState = () => {
       if (!isHost) return;
-      
-      const stateUpdate: NetworkMessage = {
-          type: 'STATE_UPDATE',
-          payload: {
-              players,
-              deckCount: deck.length,
-              discardPile,
-              currentPlayerIndex,
-              turnPhase,
-              gameState,
-              phases,
-              roundWinnerId,
-              timeLeft,
-              ...overrideState
-          }
+
+      const snapshot = gameRef.current;
+      const shared: StateUpdatePayload = {
+          deckCount: snapshot.deck.length,
+          discardPile: visibleDiscards(snapshot.discardPile),
+          currentPlayerIndex: snapshot.currentPlayerIndex,
+          turnPhase: snapshot.turnPhase,
+          gameState: snapshot.gameState,
+          phases: snapshot.phases,
+          roundWinnerId: snapshot.roundWinnerId,
+          roundNumber: snapshot.roundNumber,
+          // The seed replays every deal, so it stays secret until the game is over
+          ...(snapshot.gameState === GameState.GAME_OVER ? { seed: snapshot.seed } : {}),
+          rules: snapshot.rules,
+          discardPickups: snapshot.discardPickups,
+          finishedPlayerIds: snapshot.finishedPlayerIds,
+          // Clients count down on their own, so the clock doesn't cost a message every second
+          turnDeadline,
+          turnDuration
       };
 
+      // The first seated client still connected takes over if this host drops out.
+      // It alone receives the full snapshot, and only when something has changed.
+      const successor = snapshot.gameState === GameState.LOBBY ? undefined
+          : connectionsRef.current.find(c => c.connection?.open && snapshot.players.some(p => p.id === c.peerId));
+      const last = lastBackupRef.current;
+      const backupDue = !!successor && (last?.snapshot !== snapshot || last?.successorId !== successor.peerId);
+      if (backupDue) lastBackupRef.current = { snapshot, successorId: successor.peerId };
+
+      // Each client gets its own projection: its hand in full, opponents as card counts.
+      // The hash covers only what every projection shares.
+      const hash = hashPublicState(snapshot);
       connectionsRef.current.forEach(c => {
-          if(c.connection.open) c.connection.send(stateUpdate);
+          if (!c.connection?.open) return;
+          const backup: HostBackup | undefined = backupDue && c === successor ? {
+              snapshot,
+              sessions: connectionsRef.current.filter(s => s.sessionVerifier).map(s => ({ playerId: s.peerId, name: s.name, sessionVerifier: s.sessionVerifier!, spectator: s.spectator })),
+              turnDuration
+          } : undefined;
+          sendState(c.connection, {
+              ...shared,
+              players: redactPlayers(snapshot.players, c.peerId),
+              hostGeneration: hostGenerationRef.current,
+              successorId: successor?.peerId || null
+          }, hash, backup);
       });
   };
 
   // Broadcast state changes if Host
   useEffect(() => {
-      if (isHost && gameState !== GameState.LOBBY) {
+      if (isHost && game.gameState !== GameState.LOBBY) {
           broadcastState();
       }
-  }, [players, currentPlayerIndex, turnPhase, gameState, discardPile, roundWinnerId, timeLeft]);
+  }, [game, turnDeadline]);
+
+  // --- Lobby (Host) ---
+
+  const lobbySettings = (): LobbySettings => ({
+      rules,
+      turnDuration,
+      theme: themeInput.trim(),
+      maxPlayers: Math.min(maxPlayers, rules.tableSize),
+      botCount
+  });
+
+  // Seats follow the order the host arranged; newcomers sit at the end
+  const lobbySeats = (): LobbySeat[] => {
+      const seats: LobbySeat[] = [
+          { playerId: myPlayerIdRef.current, name: playerName, isHost: true, ready: true },
+          ...connectionsRef.current.filter(c => !c.spectator).map(c => ({ playerId: c.peerId, name: c.name, isHost: false, ready: !!c.ready }))
+      ];
+      const position = (id: string) => (seatOrder.includes(id) ? seatOrder.indexOf(id) : seatOrder.length);
+      return seats.sort((a, b) => position(a.playerId) - position(b.playerId));
+  };
+
+  const lobbySpectators = () => connectionsRef.current.filter(c => c.spectator).map(c => ({ playerId: c.peerId, name: c.name }));
+
+  const lobbyView = (): StateUpdatePayload => ({
+      gameState: GameState.LOBBY,
+      roomCode,
+      rules,
+      turnDuration,
+      lobby: { seats: lobbySeats(), spectators: lobbySpectators(), settings: lobbySettings() }
+  });
+
+  // A changed setting has to be looked at again, so everyone's ready flag drops
+  useEffect(() => {
+      if (!isHost || !connectionsRef.current.some(c => c.ready)) return;
+      connectionsRef.current = connectionsRef.current.map(c => ({ ...c, ready: false }));
+      setConnectedClients(connectionsRef.current);
+  }, [rules, turnDuration, themeInput, maxPlayers, botCount]);
+
+  useEffect(() => {
+      if (!isHost || !showRoom || game.gameState !== GameState.LOBBY) return;
+      connectionsRef.current.forEach(c => {
+          if (c.connection?.open) sendState(c.connection, lobbyView());
+      });
+  }, [isHost, showRoom, game.gameState, connectedClients, seatOrder, playerName, rules, turnDuration, themeInput, maxPlayers, botCount]);
+
+  // Tells a client why it has to go, then hangs up
+  const turnAway = (conn: TransportConnection, message: string) => {
+      conn.send({ type: 'KICKED', payload: { message } });
+      setTimeout(() => conn.close(), TURN_AWAY_CLOSE_DELAY);
+  };
+
+  const kickPlayer = (playerId: string) => {
+      const client = connectionsRef.current.find(c => c.peerId === playerId);
+      if (!client || gameRef.current.gameState !== GameState.LOBBY) return;
+      if (client.sessionVerifier) kickedSessionsRef.current.add(client.sessionVerifier);
+      connectionsRef.current = connectionsRef.current.filter(c => c !== client);
+      setConnectedClients(connectionsRef.current);
+      if (client.connection?.open) turnAway(client.connection, "The host removed you from the room.");
+      setNotification(`${client.name} was removed from the room.`);
+  };
+
+  const moveSeat = (playerId: string, offset: number) => {
+      const order = lobbySeats().map(seat => seat.playerId);
+      const from = order.indexOf(playerId);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= order.length) return;
+      order.splice(from, 1);
+      order.splice(to, 0, playerId);
+      setSeatOrder(order);
+  };
+
+  // Spectators sit down in the lobby, or between rounds in an open or bot-controlled seat (null opens a new one)
+  const promoteSpectator = (spectatorId: string, seatId: string | null) => {
+      const spectator = connectionsRef.current.find(c => c.peerId === spectatorId && c.spectator);
+      const snapshot = gameRef.current;
+      if (!spectator) return;
+
+      if (snapshot.gameState === GameState.LOBBY) {
+          if (lobbySeats().length >= lobbySettings().maxPlayers) {
+              setNotification("Every seat is taken.");
+              return;
+          }
+          connectionsRef.current = connectionsRef.current.map(c => (c === spectator ? { ...c, spectator: false, ready: false } : c));
+          setConnectedClients(connectionsRef.current);
+          return;
+      }
+      if (snapshot.gameState !== GameState.ROUND_OVER) return;
+
+      let playerId = spectatorId;
+      if (seatId) {
+          const seat = snapshot.players.find(p => p.id === seatId);
+          if (!seat || !isBotControlled(seat)) return;
+          // A player whose seat is handed over can't come back to it
+          clearStandInTimer(seatId);
+          connectionsRef.current = connectionsRef.current.filter(c => c.peerId !== seatId);
+          commitGame(seatHuman(snapshot, seatId, spectator.name));
+          playerId = seatId;
+      } else {
+          if (snapshot.players.length >= snapshot.rules.tableSize) return;
+          commitGame(addSeat(snapshot, spectatorId, spectator.name));
+      }
+
+      connectionsRef.current = connectionsRef.current.map(c => (c === spectator ? { ...c, peerId: playerId, spectator: false } : c));
+      setConnectedClients(connectionsRef.current);
+      lastBackupRef.current = null; // The successor may have changed
+      spectator.connection?.send({ type: 'SEATED', payload: { playerId } });
+      setNotification(`${spectator.name} joins the game next round.`);
+  };
+
+  // Logged for the host; clients that sent an action are also told why it was refused
+  const refuseMessage = (conn: TransportConnection, reason: string, rejection?: ActionRejection, actionId?: string) => {
+      const sender = connectionsRef.current.find(c => c.connection === conn);
+      console.warn(`Rejected message from ${sender ? `${sender.name} (${sender.peerId})` : 'a peer that has not joined'}: ${reason}`);
+      if (rejection && conn.open) conn.send({ type: 'ACTION_REJECTED', payload: rejection, actionId });
+  };
+
+  // --- Reconnection (Host) ---
+
+  const clearStandInTimer = (playerId: string) => {
+      const timer = standInTimersRef.current.get(playerId);
+      if (timer) clearTimeout(timer);
+      standInTimersRef.current.delete(playerId);
+  };
+
+  const startStandInTimer = (playerId: string, name: string) => {
+      clearStandInTimer(playerId);
+      standInTimersRef.current.set(playerId, setTimeout(() => {
+          standInTimersRef.current.delete(playerId);
+          commitGame(assignBotStandIn(gameRef.current, playerId));
+          setNotification(`A bot is playing for ${name} until they return.`);
+      }, RECONNECT_GRACE_PERIOD));
+  };
+
+  // A returning client takes over its old seat, hand and all
+  const reclaimSeat = (client: ConnectedClient, conn: TransportConnection) => {
+      const stale = client.connection;
+      connectionsRef.current = connectionsRef.current.map(c => (c.peerId === client.peerId ? { ...c, connection: conn } : c));
+      setConnectedClients(connectionsRef.current);
+      if (stale && stale !== conn && stale.open) stale.close(); // An older tab still holding the seat
+      lastBackupRef.current = null; // A returning successor needs the backup again
+      clearStandInTimer(client.peerId);
+
+      const snapshot = gameRef.current;
+      if (snapshot.players.some(p => p.id === client.peerId)) {
+          commitGame(setSeatConnected(snapshot, client.peerId, true));
+          setNotification(`${client.name} reconnected.`);
+      }
+      // The lobby has its own view; a game view would leave the client waiting on the host
+      if (snapshot.gameState === GameState.LOBBY) sendState(conn, lobbyView());
+      else broadcastState();
+  };
+
+  // Lobby seats are simply freed; in a game the seat waits, then a bot covers for the player
+  const handleConnectionClosed = (conn: TransportConnection) => {
+      syncRef.current.delete(conn);
+      const client = connectionsRef.current.find(c => c.connection === conn);
+      if (!client) return; // Never joined, or already replaced by a newer connection
+
+      const snapshot = gameRef.current;
+      if (snapshot.gameState === GameState.LOBBY || !snapshot.players.some(p => p.id === client.peerId)) {
+          connectionsRef.current = connectionsRef.current.filter(c => c !== client);
+          setConnectedClients(connectionsRef.current);
+          return;
+      }
+
+      commitGame(setSeatConnected(snapshot, client.peerId, false));
+      setNotification(`${client.name} disconnected.`);
+      startStandInTimer(client.peerId, client.name);
+  };
+  closeHandlerRef.current = handleConnectionClosed;
+
+  // --- Host Migration (Client) ---
+
+  // The successor reopens the room from its backup; every seat but its own starts out disconnected
+  const becomeHost = (backup: HostBackup, generation: number) => {
+      const session = sessionRef.current!;
+      endpointRef.current?.close();
+      endpointRef.current = openHostEndpoint(hostPeerId(session.roomCode, generation));
+
+      hostGenerationRef.current = generation;
+      sessionRef.current = setSessionHostGeneration(session, generation);
+      connectionsRef.current = backup.sessions
+          .filter(s => s.playerId !== session.playerId)
+          .map(s => ({ connection: null, peerId: s.playerId, name: s.name, sessionVerifier: s.sessionVerifier, spectator: s.spectator }));
+      setConnectedClients(connectionsRef.current);
+      lastBackupRef.current = null;
+      syncRef.current = new Map();
+      trackPendingAction(null);
+
+      let snapshot = backup.snapshot;
+      snapshot.players.filter(p => p.isHuman && p.id !== session.playerId).forEach(p => {
+          snapshot = setSeatConnected(snapshot, p.id, false);
+          startStandInTimer(p.id, p.name);
+      });
+      setTurnDuration(backup.turnDuration);
+      setIsHost(true);
+      commitGame(snapshot);
+      setNotification("The host left. You are now hosting this game.");
+  };
+
+  // Connects to one host generation, giving up if it hasn't answered in time
+  const tryHost = (generation: number, onConnected: () => void, onFail: () => void) => {
+      const endpoint = endpointRef.current;
+      const session = sessionRef.current;
+      if (!endpoint || !session) return;
+
+      const conn = connectToHost(endpoint, { ...session, hostGeneration: generation }, () => {
+          sessionRef.current = setSessionHostGeneration(session, generation);
+          onConnected();
+      });
+      setTimeout(() => {
+          if (conn?.open) return;
+          conn?.close();
+          onFail();
+      }, HOST_MIGRATION_RETRY_DELAY);
+  };
+
+  const handleHostLost = (conn: TransportConnection) => {
+      if (connectionsRef.current[0]?.connection !== conn) return; // A connection we had already moved on from
+      connectionsRef.current = [];
+      trackPendingAction(null);
+
+      const { successorId, backup } = migrationRef.current;
+      const session = sessionRef.current;
+      if (gameRef.current.gameState === GameState.LOBBY || !successorId || !session) {
+          setNotification("Lost connection to the host. Join again with the same code to get your seat back.");
+          return;
+      }
 
+      const current = session.hostGeneration || 0;
+      const next = current + 1;
+      const reconnected = () => setNotification("Reconnected to the game.");
+
+      if (successorId === myPlayerIdRef.current && backup) {
+          // Our own dropped link looks just like a departed host, so make sure the host is really gone
+          tryHost(current, reconnected, () => becomeHost(backup, next));
+          return;
+      }
 
-  const handleNetworkMessage = (msg: NetworkMessage, conn: any) => {
+      // Knock on the successor's door, and now and then the old host's in case only our link dropped
+      setNotification("The host left. Moving the game to a new host...");
+      const attempt = (attemptsLeft: number) => tryHost(attemptsLeft % 3 === 0 ? current : next, reconnected, () => {
+          if (attemptsLeft > 1) attempt(attemptsLeft - 1);
+          else setNotification("Couldn't reach a new host. The game has ended.");
+      });
+      attempt(HOST_MIGRATION_ATTEMPTS);
+  };
+  hostLostRef.current = handleHostLost;
+
+  const handleNetworkMessage = (data: unknown, conn: TransportConnection) => {
       if (isHost) {
           // --- HOST HANDLING ---
+          const parsed = parseClientMessage(data);
+          if (parsed.ok === false) {
+              refuseMessage(conn, parsed.reason, { code: 'MALFORMED_MESSAGE', message: "The host couldn't read that move." }, readActionId(data));
+              return;
+          }
+          const msg = parsed.message;
+          // Each connection is bound to the seat it joined with
+          const seat = connectionsRef.current.find(c => c.connection === conn);
+
           if (msg.type === 'PLAYER_JOINED') {
+              if (seat) {
+                  refuseMessage(conn, `joined twice, already seated as ${seat.peerId}`);
+                  return;
+              }
+              const known = connectionsRef.current.find(c => c.peerId === msg.payload.playerId);
+              const verifier = sessionVerifier(msg.payload.sessionToken);
+              if (known && known.sessionVerifier === verifier) {
+                  reclaimSeat(known, conn);
+                  return;
+              }
+              // Seats without a connection (bots, the old host after a migration) can't be claimed either
+              const claimed = known || msg.payload.playerId === myPlayerIdRef.current || isReservedSeatId(msg.payload.playerId)
+                  || gameRef.current.players.some(p => p.id === msg.payload.playerId);
+              if (claimed) {
+                  refuseMessage(conn, `tried to join as ${msg.payload.playerId}, which is taken`, { code: 'NOT_YOUR_SEAT', message: "That seat is already taken." });
+                  return;
+              }
+              if (kickedSessionsRef.current.has(verifier)) {
+                  refuseMessage(conn, `${msg.payload.name} was removed from this room`);
+                  turnAway(conn, "You were removed from this room.");
+                  return;
+              }
+              // Anyone arriving mid-game can only watch until the host gives them a seat
+              const spectator = !!msg.payload.spectator || gameRef.current.gameState !== GameState.LOBBY;
+              if (!spectator && lobbySeats().length >= lobbySettings().maxPlayers) {
+                  refuseMessage(conn, `${msg.payload.name} tried to join a full room`);
+                  turnAway(conn, "The room is full.");
+                  return;
+              }
+
               const newClient: ConnectedClient = {
                   connection: conn,
                   peerId: msg.payload.playerId,
-                  name: msg.payload.name
+                  name: msg.payload.name,
+                  sessionVerifier: verifier,
+                  spectator
               };
               connectionsRef.current = [...connectionsRef.current, newClient];
-              setConnectedClients(prev => [...prev, newClient]);
-              
-              // Send current Lobby State back immediately
-              conn.send({
-                  type: 'STATE_UPDATE',
-                  payload: {
-                      gameState: GameState.LOBBY,
-                      roomCode,
-                      connectedNames: connectionsRef.current.map(c => c.name)
-                  }
-              });
+              setConnectedClients(connectionsRef.current);
+
+              // Send current Lobby State back immediately, or the table to someone arriving mid-game
+              if (gameRef.current.gameState === GameState.LOBBY) sendState(conn, lobbyView());
+              else broadcastState();
+          }
+          else if (msg.type === 'SET_READY') {
+              if (!seat || seat.spectator || gameRef.current.gameState !== GameState.LOBBY) return;
+              connectionsRef.current = connectionsRef.current.map(c => (c === seat ? { ...c, ready: msg.payload.ready } : c));
+              setConnectedClients(connectionsRef.current);
+          }
+          else if (msg.type === 'RESYNC_REQUEST') {
+              if (!seat) return;
+              console.warn(`${seat.name} lost track of the state after #${msg.payload.lastSeq}, resending the full view`);
+              const last = syncRef.current.get(conn);
+              if (last) syncRef.current.set(conn, { ...last, view: null });
+              setSyncStats(stats => ({ ...stats, resyncs: stats.resyncs + 1 }));
+              if (gameRef.current.gameState === GameState.LOBBY) sendState(conn, lobbyView());
+              else broadcastState();
           }
           else if (msg.type === 'ACTION') {
-              // Execute Action on behalf of client
-              const action: NetworkActionPayload = msg.payload;
-              processHostAction(action);
+              if (!seat) {
+                  refuseMessage(conn, `sent ${msg.payload.action} before joining`, { code: 'NOT_YOUR_SEAT', message: "Join the room before playing." }, msg.actionId);
+                  return;
+              }
+              if (seat.spectator) {
+                  refuseMessage(conn, `spectator sent ${msg.payload.action}`, { code: 'NOT_YOUR_SEAT', message: "Spectators can't play." }, msg.actionId);
+                  return;
+              }
+              if (msg.payload.playerId !== undefined && msg.payload.playerId !== seat.peerId) {
+                  refuseMessage(conn, `sent ${msg.payload.action} as ${msg.payload.playerId}`, { code: 'NOT_YOUR_SEAT', message: "You can only play from your own seat." }, msg.actionId);
+                  return;
+              }
+              // Execute Action on behalf of the bound seat, and answer it either way
+              const result = processHostAction({ ...msg.payload, playerId: seat.peerId });
+              if (result.ok === false) {
+                  conn.send({ type: 'ACTION_REJECTED', payload: result.rejection, actionId: msg.actionId });
+              } else {
+                  conn.send({ type: 'ACTION_ACCEPTED', payload: { action: msg.payload.action }, actionId: msg.actionId });
+              }
           }
       } else {
           // --- CLIENT HANDLING ---
-          if (msg.type === 'STATE_UPDATE') {
+          const parsed = parseHostMessage(data);
+          if (parsed.ok === false) {
+              console.warn(`Ignored message from host: ${parsed.reason}`);
+              return;
+          }
+          const msg = parsed.message;
+          if (msg.type === 'STATE_UPDATE' || msg.type === 'STATE_DELTA') {
+              // Numbers only go up on a connection, so anything at or below the last one is stale
+              if (lastSeqRef.current !== null && msg.seq <= lastSeqRef.current) return;
+              // A delta only applies on top of the update right before it; after a gap, ask for the whole view
+              if (msg.type === 'STATE_DELTA' && (lastSeqRef.current === null || msg.seq !== lastSeqRef.current + 1)) {
+                  setSyncStats(stats => ({ ...stats, gaps: stats.gaps + 1 }));
+                  requestResync(conn);
+                  return;
+              }
+              lastSeqRef.current = msg.seq;
+              if (msg.type === 'STATE_UPDATE') resyncRequestedRef.current = false;
+
               const data = msg.payload;
-              if (data.gameState) setGameState(data.gameState);
-              if (data.players) setPlayers(data.players);
-              if (data.deckCount !== undefined) setDeck(Array(data.deckCount).fill({} as Card)); // Dummy deck
-              if (data.discardPile) setDiscardPile(data.discardPile);
-              if (data.currentPlayerIndex !== undefined) setCurrentPlayerIndex(data.currentPlayerIndex);
-              if (data.turnPhase) setTurnPhase(data.turnPhase);
-              if (data.phases) setPhases(data.phases);
-              if (data.roundWinnerId !== undefined) setRoundWinnerId(data.roundWinnerId);
-              if (data.timeLeft !== undefined) setTimeLeft(data.timeLeft);
-              if (data.connectedNames && gameState === GameState.LOBBY) {
-                  // Just for lobby UI showing who is in
-                  setConnectedClients(data.connectedNames.map((n: string) => ({ name: n } as any)));
+              const next: GameSnapshot = { ...gameRef.current };
+              if (data.gameState) next.gameState = data.gameState;
+              // Only our own hand arrives; opponents carry a handCount instead
+              const players = data.players || (data.playerChanges && applyPlayerChanges(next.players, data.playerChanges));
+              if (players) {
+                  next.players = players;
+                  // Drop selections for cards that have left my hand
+                  const myHand = players.find((p: Player) => p.id === myPlayerIdRef.current)?.hand || [];
+                  setSelectedCardIds(ids => ids.filter(id => myHand.some((c: Card) => c.id === id)));
+              }
+              if (data.deckCount !== undefined) next.deck = Array(data.deckCount).fill({} as Card); // Dummy deck
+              if (data.discardPile) next.discardPile = data.discardPile;
+              if (data.currentPlayerIndex !== undefined) next.currentPlayerIndex = data.currentPlayerIndex;
+              if (data.turnPhase) next.turnPhase = data.turnPhase;
+              if (data.phases) next.phases = data.phases;
+              if (data.roundWinnerId !== undefined) next.roundWinnerId = data.roundWinnerId;
+              if (data.roundNumber !== undefined) next.roundNumber = data.roundNumber;
+              // Our own locally made seed means nothing here; a full view without one leaves us with none
+              if (data.seed) next.seed = data.seed;
+              else if (msg.type === 'STATE_UPDATE') next.seed = '';
+              if (data.discardPickups) next.discardPickups = data.discardPickups;
+              if (data.finishedPlayerIds) next.finishedPlayerIds = data.finishedPlayerIds;
+              if (data.rules) {
+                  next.rules = data.rules;
+                  setRules(data.rules);
+              }
+              commitGame(next);
+
+              // Our copy should now hash the same as the host's. A full view that still differs
+              // can't be fixed by asking again, so it is only counted.
+              const localHash = msg.hash ? hashPublicState(next) : null;
+              const desynced = localHash !== null && localHash !== msg.hash;
+              setSyncStats(stats => ({
+                  ...stats,
+                  updates: stats.updates + 1,
+                  deltas: stats.deltas + (msg.type === 'STATE_DELTA' ? 1 : 0),
+                  desyncs: stats.desyncs + (desynced ? 1 : 0),
+                  lastSeq: msg.seq,
+                  lastHash: localHash || stats.lastHash
+              }));
+              if (desynced) {
+                  console.warn(`State hash ${localHash} differs from the host's ${msg.hash} after update #${msg.seq}`);
+                  if (msg.type === 'STATE_DELTA') requestResync(conn);
+              }
+
+              // Re-read the host's deadline against our own clock, so clock differences don't matter
+              if (data.turnDeadline !== undefined) setTurnDeadline(data.turnDeadline === null ? null : Date.now() + data.turnDeadline - msg.sentAt);
+              if (data.hostGeneration !== undefined && sessionRef.current && data.hostGeneration !== sessionRef.current.hostGeneration) {
+                  sessionRef.current = setSessionHostGeneration(sessionRef.current, data.hostGeneration);
+              }
+              // The successor id only comes along when it changes, but every fresh backup does
+              if (data.successorId !== undefined) {
+                  const isSuccessor = data.successorId === myPlayerIdRef.current;
+                  migrationRef.current = {
+                      successorId: data.successorId,
+                      backup: isSuccessor ? migrationRef.current.backup : undefined
+                  };
               }
+              if (data.backup && migrationRef.current.successorId === myPlayerIdRef.current) {
+                  migrationRef.current = { ...migrationRef.current, backup: data.backup };
+              }
+              if (data.turnDuration !== undefined) setTurnDuration(data.turnDuration);
+              if (data.lobby) setLobby(data.lobby);
+          }
+          else if (msg.type === 'ACTION_ACCEPTED') {
+              if (msg.actionId !== pendingActionRef.current?.id) return; // Answer to an action we already gave up on
+              trackPendingAction(null);
+              setMeldIssues([]);
+              setSelectedCardIds([]);
+          }
+          else if (msg.type === 'ACTION_REJECTED') {
+              if (msg.actionId && msg.actionId === pendingActionRef.current?.id) trackPendingAction(null);
+              showRejection(msg.payload);
+          }
+          else if (msg.type === 'SEATED') {
+              myPlayerIdRef.current = msg.payload.playerId;
+              if (sessionRef.current) sessionRef.current = setSessionSeat(sessionRef.current, msg.payload.playerId);
+              setFollowedId(null);
+              setNotification("The host gave you a seat. You play from the next round.");
           }
+          else if (msg.type === 'KICKED') {
+              leaveRoom();
+              setNotification(msg.payload.message);
+          }
+      }
+  };
+  networkHandlerRef.current = handleNetworkMessage;
+
+  // Asks the host for the whole view once; further requests wait until it arrives
+  const requestResync = (conn: TransportConnection) => {
+      if (resyncRequestedRef.current) return;
+      resyncRequestedRef.current = true;
+      conn.send({ type: 'RESYNC_REQUEST', payload: { lastSeq: lastSeqRef.current ?? 0 } });
+      setSyncStats(stats => ({ ...stats, resyncs: stats.resyncs + 1 }));
+  };
+
+  // One action is in flight at a time; if the host never answers, the client stops waiting
+  const trackPendingAction = (next: PendingAction | null) => {
+      if (pendingTimeoutRef.current) clearTimeout(pendingTimeoutRef.current);
+      pendingActionRef.current = next;
+      setPendingAction(next);
+      if (next) {
+          pendingTimeoutRef.current = setTimeout(() => {
+              trackPendingAction(null);
+              setNotification("The host didn't respond. Try again.");
+          }, ACTION_RESPONSE_TIMEOUT);
       }
   };
 
   const sendClientAction = (action: NetworkActionPayload) => {
       const hostConn = connectionsRef.current[0]?.connection;
-      if (hostConn && hostConn.open) {
-          hostConn.send({
-              type: 'ACTION',
-              payload: { ...action, playerId: myPlayerIdRef.current }
-          });
+      if (!hostConn || !hostConn.open) {
+          setNotification("Not connected to the host.");
+          return;
+      }
+      if (pendingActionRef.current) {
+          setNotification("Still waiting for the host...");
+          return;
       }
+
+      const actionId = `${myPlayerIdRef.current}-${++actionCounterRef.current}`;
+      trackPendingAction({ id: actionId, action: action.action });
+      const message: NetworkMessage = {
+          type: 'ACTION',
+          payload: action, // The host knows which seat this connection belongs to
+          actionId
+      };
+      hostConn.send(message);
   };
 
-  const processHostAction = (action: NetworkActionPayload) => {
-      const playerIndex = players.findIndex(p => p.id === action.playerId);
-      if (playerIndex === -1) return;
-      const player = players[playerIndex];
-
-      // Validate turn
-      if (playerIndex !== currentPlayerIndex) return; 
-
-      switch (action.action) {
-          case 'DRAW':
-              handleDraw(!!action.fromDiscard);
-              break;
-          case 'DISCARD':
-              if (action.cardId) {
-                  const card = player.hand.find(c => c.id === action.cardId);
-                  if (card) performDiscard(player, card);
-              }
-              break;
-          case 'MELD':
-              // Logic reused from handleMeld but bypassing selection state
-              if (action.cardIds) {
-                const currentPhase = phases[player.phaseIndex];
-                const selectedHand = player.hand.filter(c => action.cardIds!.includes(c.id));
-                const validation = validatePhaseHand(selectedHand, currentPhase.requirements);
-                
-                if (validation.valid && validation.groups) {
-                    const newHand = player.hand.filter(c => !action.cardIds!.includes(c.id));
-                    const newMelds = validation.groups.map((group, idx) => ({
-                        id: `meld-${Date.now()}-${idx}`,
-                        cards: group,
-                        type: currentPhase.requirements[idx].type,
-                        ownerId: player.id
-                    }));
-                    const newPlayers = [...players];
-                    newPlayers[playerIndex] = { ...player, hand: newHand, melds: [...player.melds, ...newMelds], hasLaidDownPhase: true };
-                    setPlayers(newPlayers);
-                }
-              }
-              break;
-          case 'HIT':
-              if (action.cardId && action.meldId) {
-                  const card = player.hand.find(c => c.id === action.cardId);
-                  if (card) executeHit(player, card, action.meldId);
-              }
-              break;
-          case 'REORDER':
-               if (action.fromIndex !== undefined && action.toIndex !== undefined) {
-                   const newHand = [...player.hand];
-                   const [moved] = newHand.splice(action.fromIndex, 1);
-                   newHand.splice(action.toIndex, 0, moved);
-                   const newPlayers = [...players];
-                   newPlayers[playerIndex] = { ...player, hand: newHand };
-                   setPlayers(newPlayers);
-               }
-               break;
-      }
+  // Remote actions go through the same reducer as local ones
+  const processHostAction = (action: NetworkActionPayload): ActionResult => {
+      const result = applyAction(gameRef.current, action);
+      if (!result.ok) return result;
+      commitGame(result.state);
+      announceEvents(result.events, action.playerId);
+      return result;
   };
 
 
-  const startGame = async (useAI: boolean) => {
+  const startGame = async (useAI: boolean, reviewedPhases?: Phase[]) => {
     // Only Host starts game
     if (isMultiplayer && !isHost) return;
+    if (isMultiplayer) {
+        const seats = lobbySeats();
+        const waiting = seats.filter(seat => !seat.ready).length;
+        if (waiting > 0) {
+            setNotification(`Waiting for ${waiting} ${waiting === 1 ? 'player' : 'players'} to get ready.`);
+            return;
+        }
+        if (seats.length > rules.tableSize) {
+            setNotification(`The table only has room for ${rules.tableSize} players.`);
+            return;
+        }
+    }
 
-    if (useAI && themeInput.trim()) {
-      setGameState(GameState.GENERATING);
-      setLoadingMessage(`Generating ${themeInput} phases with Gemini AI...`);
-      const aiPhases = await generatePhases(themeInput);
-      if (aiPhases.length > 0) {
-        setPhases(aiPhases);
+    // The same seed replays the same deals, bot names and bot decisions
+    const seed = seedInput.trim().toUpperCase() || generateSeed();
+    let gamePhases = reviewedPhases || pickPhases(STANDARD_PHASES, rules.phaseCount);
+    setGeneratedPack(null);
+    if (useAI && !reviewedPhases && themeInput.trim()) {
+      setGeneratingGame(true);
+      let pack: PhasePackReport = { phases: [], adjustments: [] };
+      for (const provider of getPhaseProviders()) {
+        setLoadingMessage(`Generating ${themeInput} phases with ${provider.name}...`);
+        pack = await provider.generatePhases(themeInput, rules.phaseCount, rules);
+        if (pack.phases.length > 0) break;
+        setNotification(`${provider.name} failed, trying the next generator.`);
+      }
+      setGeneratingGame(false);
+      if (pack.phases.length === 0) {
+        setNotification("Phase generation failed, using standard phases.");
+      } else if (pack.adjustments.length > 0) {
+        // Show what had to change before anyone plays it
+        setGeneratedPack(pack);
+        return;
       } else {
-        setNotification("AI failed, using standard phases.");
-        setPhases(STANDARD_PHASES);
+        gamePhases = pack.phases;
       }
-    } else {
-      setPhases(STANDARD_PHASES);
     }
 
     // Initialize Players
-    // Host is always Player 1
-    const p1: Player = { 
-        id: myPlayerIdRef.current, 
-        name: playerName + " (Host)", 
-        isHuman: true, 
-        hand: [], melds: [], phaseIndex: 0, hasLaidDownPhase: false, score: 0 
+    const p1: Player = {
+        id: myPlayerIdRef.current,
+        name: playerName + " (Host)",
+        isHuman: true,
+        hand: [], melds: [], phaseIndex: 0, hasLaidDownPhase: false, score: 0
     };
-    
+
     let activePlayers: Player[] = [p1];
 
     if (isMultiplayer) {
-        // Add connected clients
-        const clientPlayers = connectedClients.map((c, i) => ({
-            id: c.peerId,
-            name: c.name,
+        // Everyone sits in the order the host arranged in the lobby
+        activePlayers = lobbySeats().map(seat => (seat.isHost ? p1 : {
+            id: seat.playerId,
+            name: seat.name,
             isHuman: true,
             hand: [], melds: [], phaseIndex: 0, hasLaidDownPhase: false, score: 0
         }));
-        activePlayers = [...activePlayers, ...clientPlayers];
     }
 
-    // Fill remaining spots with bots (up to 4 total)
-    const neededBots = 4 - activePlayers.length;
+    // Fill remaining spots with bots (up to the table size). Multiplayer hosts choose how many.
+    const openSeats = Math.max(0, rules.tableSize - activePlayers.length);
+    const neededBots = isMultiplayer ? Math.min(botCount, openSeats) : openSeats;
     if (neededBots > 0) {
-        const shuffledBotNames = [...BOT_NAMES].sort(() => 0.5 - Math.random());
+        const shuffledBotNames = shuffle(BOT_NAMES, createRng(hashSeed(seed)).next);
         for(let i=0; i<neededBots; i++) {
             activePlayers.push({
                 id: `bot-${i}`,
                 name: shuffledBotNames[i],
                 isHuman: false,
+                botDifficulty: botDifficulties[i],
                 hand: [], melds: [], phaseIndex: 0, hasLaidDownPhase: false, score: 0
             });
         }
     }
 
-    setPlayers(activePlayers);
-    startRound(activePlayers);
+    commitGame(createGameSnapshot(activePlayers, gamePhases, seed, rules));
+    startRound('START_GAME');
   };
 
-  const startRound = (currentPlayers: Player[]) => {
-    const newDeck = shuffleDeck(createDeck());
-    const { hands, remainingDeck } = dealCards(newDeck, currentPlayers.length, HAND_SIZE);
-    
-    // Start Discard Pile
-    const firstDiscard = remainingDeck.pop()!;
-    
-    const updatedPlayers = currentPlayers.map((p, idx) => ({
-      ...p,
-      hand: hands[idx].sort((a, b) => a.value - b.value),
-      melds: [],
-      hasLaidDownPhase: false,
-      isSkipped: false
-    }));
-
-    setDeck(remainingDeck);
-    setDiscardPile([firstDiscard]);
-    setPlayers(updatedPlayers);
-    setCurrentPlayerIndex(0);
-    setTurnPhase(TurnPhase.DRAW);
-    setRoundWinnerId(null);
-    setGameState(GameState.PLAYING);
-    setNotification("Round Started! Phase: " + phases[updatedPlayers[0].phaseIndex].name);
+  const startRound = (action: 'START_GAME' | 'NEXT_ROUND') => {
+    const result = dispatch({ action });
+    if (!result.ok) return;
+
     setSelectedCardIds([]);
-    setTimeLeft(turnDuration);
-    
-    // Broadcast initial state
-    if (isHost) {
-        // We need to wait for state to set, but useEffect handles it generally. 
-        // However, initial broadcast is good to force sync
-        setTimeout(() => broadcastState({
-             gameState: GameState.PLAYING,
-             players: updatedPlayers,
-             deckCount: remainingDeck.length,
-             discardPile: [firstDiscard]
-        }), 100);
-    }
+    restartTurnClock();
   };
 
+  // A reviewed pack was repaired for the old hand size and deck, so it can't carry over
+  useEffect(() => {
+    setGeneratedPack(null);
+  }, [rules]);
+
   // --- Notification Logic ---
   useEffect(() => {
     if (notification) {
         if (notificationTimeoutRef.current) clearTimeout(notificationTimeoutRef.current);
         notificationTimeoutRef.current = setTimeout(() => {
             setNotification("");
-        }, 4000); 
+        }, 4000);
     }
     return () => {
         if (notificationTimeoutRef.current) clearTimeout(notificationTimeoutRef.current);
@@ -411,8 +986,8 @@ const App: React.FC = () => {
     notification && (
       <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-4 bg-slate-800 text-white px-6 py-3 rounded-lg shadow-2xl border-l-4 border-indigo-500 animate-in fade-in slide-in-from-top-4 duration-300">
         <span className="font-medium">{notification}</span>
-        <button 
-            onClick={dismissNotification} 
+        <button
+            onClick={dismissNotification}
             className="text-slate-400 hover:text-white font-bold p-1 hover:bg-slate-700 rounded"
         >
             ✕
@@ -421,22 +996,22 @@ const App: React.FC = () => {
     )
   );
 
-  // --- Timer Logic (Host Only) ---
+  // --- Timer Logic ---
+
+  // Only the host sets the deadline; everyone counts down to it locally
+  const restartTurnClock = () => {
+    setTurnDeadline(turnDuration > 0 ? Date.now() + turnDuration * 1000 : null);
+  };
 
   useEffect(() => {
-    // Only Host runs the timer logic
-    if ((isHost || !isMultiplayer) && gameState === GameState.PLAYING && turnDuration > 0) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) return 0;
-          return prev - 1;
-        });
-      }, 1000);
-    }
+    if (gameState !== GameState.PLAYING || turnDeadline === null) return;
+    const tick = () => setTimeLeft(Math.max(0, Math.ceil((turnDeadline - Date.now()) / 1000)));
+    tick();
+    timerRef.current = setInterval(tick, 1000);
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [gameState, turnDuration, isHost, isMultiplayer]);
+  }, [gameState, turnDeadline]);
 
   // Trigger timeout action when time reaches 0
   useEffect(() => {
@@ -446,29 +1021,40 @@ const App: React.FC = () => {
   }, [timeLeft]);
 
   const handleTimeout = () => {
-    if (gameState !== GameState.PLAYING) return;
+    const snapshot = gameRef.current;
+    if (snapshot.gameState !== GameState.PLAYING) return;
 
-    const player = players[currentPlayerIndex];
-    
-    if (!player.isHuman) {
+    const player = snapshot.players[snapshot.currentPlayerIndex];
+
+    if (isBotControlled(player)) {
         // Bot timeout logic is handled in bot loop, but strictly enforcing here
     } else {
         setNotification("Time's up! Auto-playing turn.");
-        if (turnPhase === TurnPhase.DRAW) {
-            handleDraw(false);
+        if (snapshot.turnPhase === TurnPhase.DRAW) {
+            processHostAction({ action: 'DRAW', playerId: player.id, fromDiscard: false });
         } else {
             const sortedHand = [...player.hand].sort((a, b) => b.value - a.value);
             let cardToDiscard = sortedHand.find(c => c.type !== CardType.WILD && c.type !== CardType.SKIP);
             if (!cardToDiscard) cardToDiscard = sortedHand[0];
-            if (cardToDiscard) performDiscard(player, cardToDiscard);
+            if (cardToDiscard) processHostAction({ action: 'DISCARD', playerId: player.id, cardId: cardToDiscard.id });
         }
     }
   };
 
+  // Meld feedback only applies to the turn it came from
+  useEffect(() => {
+    setMeldIssues([]);
+  }, [currentPlayerIndex, game.gameState]);
+
+  // Drawing changes the hand, so a hint only lasts until the next turn phase
+  useEffect(() => {
+    setHint(null);
+  }, [currentPlayerIndex, turnPhase, game.gameState]);
+
   // Reset timer on turn/phase change
   useEffect(() => {
     if (isHost || !isMultiplayer) {
-        setTimeLeft(turnDuration);
+        restartTurnClock();
     }
   }, [currentPlayerIndex, turnPhase, turnDuration]);
 
@@ -482,52 +1068,19 @@ const App: React.FC = () => {
         return;
     }
 
-    const player = players[currentPlayerIndex];
-    if (!player.isHuman && timeLeft > 0 && !isMultiplayer) return; 
-
-    let card: Card;
-    let newDeck = [...deck];
-    let newDiscard = [...discardPile];
-
-    if (fromDiscard) {
-      const top = newDiscard[newDiscard.length - 1];
-      if (top.type === CardType.SKIP) {
-        setNotification("Cannot pick up a Skip card!");
-        return;
-      }
-      card = newDiscard.pop()!;
-    } else {
-      if (newDeck.length === 0) {
-        if (newDiscard.length <= 1) {
-             setNotification("Deck empty and no discard to shuffle. Game Draw.");
-             return;
-        }
-        const top = newDiscard.pop()!;
-        newDeck = shuffleDeck(newDiscard);
-        newDiscard = [top];
-      }
-      card = newDeck.pop()!;
-    }
-
-    const updatedPlayer = { ...player, hand: [...player.hand, card] };
-    const newPlayers = [...players];
-    newPlayers[currentPlayerIndex] = updatedPlayer;
-
-    setDeck(newDeck);
-    setDiscardPile(newDiscard);
-    setPlayers(newPlayers);
-    setTurnPhase(TurnPhase.ACTION);
+    dispatch({ action: 'DRAW', playerId: myPlayerIdRef.current, fromDiscard });
   };
 
   const handleCardClick = (card: Card) => {
     // Local Selection Only
     const p = players[currentPlayerIndex];
     const amIActive = p.id === myPlayerIdRef.current;
-    
+
     // Only allow selection if it's my turn
     if (!amIActive) return;
 
     if (turnPhase === TurnPhase.ACTION || turnPhase === TurnPhase.DISCARD) {
+      setMeldIssues([]);
       if (selectedCardIds.includes(card.id)) {
         setSelectedCardIds(selectedCardIds.filter(id => id !== card.id));
       } else {
@@ -540,42 +1093,23 @@ const App: React.FC = () => {
     }
   };
 
-  const performDiscard = (player: Player, cardToDiscard: Card) => {
-      const newHand = player.hand.filter(c => c.id !== cardToDiscard.id);
-      const newDiscard = [...discardPile, cardToDiscard];
-      
-      const newPlayers = [...players];
-      newPlayers[currentPlayerIndex] = { ...player, hand: newHand };
-      
-      setDiscardPile(newDiscard);
-      setPlayers(newPlayers);
-      setSelectedCardIds([]);
-
-      // Check Round End
-      if (newHand.length === 0) {
-        endRound(player.id);
-      } else {
-        let nextIndex = (currentPlayerIndex + 1) % players.length;
-        if (cardToDiscard.type === CardType.SKIP) {
-          setNotification(`${players[nextIndex].name} was skipped!`);
-          const skippedPlayer = newPlayers[nextIndex];
-          skippedPlayer.isSkipped = true;
-          nextIndex = (nextIndex + 1) % players.length;
-        }
+  // Hints are worked out locally from our own hand, so they never cost the host anything
+  const handleHint = () => {
+    const me = players.find(p => p.id === myPlayerIdRef.current);
+    if (!me || !game.rules.allowHints || me.hasLaidDownPhase) return;
+    setMeldIssues([]);
+    setHint(findPhaseHint(me.hand, phases[me.phaseIndex].requirements, game.rules));
+  };
 
-        setCurrentPlayerIndex(nextIndex);
-        setTurnPhase(TurnPhase.DRAW);
-      }
+  const handleSelectHint = () => {
+    if (hint?.complete) setSelectedCardIds(hint.cardIds);
   };
 
   const handleDiscard = () => {
-    const player = players[currentPlayerIndex];
-    
     // Client Action Check
     if (isMultiplayer && !isHost) {
         if (selectedCardIds.length === 1) {
             sendClientAction({ action: 'DISCARD', cardId: selectedCardIds[0] });
-            setSelectedCardIds([]); // Clear local selection
         } else {
              setNotification("Select one card.");
         }
@@ -583,114 +1117,29 @@ const App: React.FC = () => {
     }
 
     if (selectedCardIds.length !== 1) {
-      if (turnPhase === TurnPhase.ACTION && selectedCardIds.length === 1) {
-        // Proceed
-      } else {
-        setNotification("Select exactly one card to discard.");
-        return;
-      }
+      setNotification("Select exactly one card to discard.");
+      return;
     }
 
-    const cardId = selectedCardIds[0];
-    const cardToDiscard = player.hand.find(c => c.id === cardId);
-
-    if (!cardToDiscard) return;
-    performDiscard(player, cardToDiscard);
+    dispatch({ action: 'DISCARD', playerId: myPlayerIdRef.current, cardId: selectedCardIds[0] });
   };
 
   const handleMeld = () => {
-    const player = players[currentPlayerIndex];
-    
     // Client Action Check
     if (isMultiplayer && !isHost) {
+        // Selection stays until the host accepts, so any rejection can point at these cards
         sendClientAction({ action: 'MELD', cardIds: selectedCardIds });
-        setSelectedCardIds([]);
         return;
     }
 
-    const currentPhase = phases[player.phaseIndex];
-    
-    if (player.hasLaidDownPhase) {
-      setNotification("You have already completed your phase this round.");
-      return;
-    }
-
-    const selectedHand = player.hand.filter(c => selectedCardIds.includes(c.id));
-    const validation = validatePhaseHand(selectedHand, currentPhase.requirements);
-    
-    if (validation.valid && validation.groups) {
-      const newHand = player.hand.filter(c => !selectedCardIds.includes(c.id));
-      const newMelds = validation.groups.map((group, idx) => ({
-        id: `meld-${Date.now()}-${idx}`,
-        cards: group,
-        type: currentPhase.requirements[idx].type,
-        ownerId: player.id
-      }));
-
-      const newPlayers = [...players];
-      newPlayers[currentPlayerIndex] = {
-        ...player,
-        hand: newHand,
-        melds: [...player.melds, ...newMelds],
-        hasLaidDownPhase: true
-      };
-
-      setPlayers(newPlayers);
-      setSelectedCardIds([]);
-      setNotification("Phase Completed! You can now hit on melds or discard.");
-    } else {
-      setNotification("Invalid card combination for this phase.");
-    }
-  };
-
-  const executeHit = (player: Player, card: Card, targetMeldId: string) => {
-      let targetMeld: Meld | undefined;
-      players.forEach(p => {
-          const m = p.melds.find(m => m.id === targetMeldId);
-          if (m) targetMeld = m;
-      });
-
-      if (!targetMeld) {
-          setNotification("Target phase not found.");
-          return;
-      }
-
-      if (canAddToMeld(card, targetMeld)) {
-          const newHand = player.hand.filter(c => c.id !== card.id);
-          const newPlayers = players.map(p => {
-              let updatedPlayer = { ...p };
-              if (p.id === player.id) {
-                  updatedPlayer.hand = newHand;
-              }
-              const meldIndex = p.melds.findIndex(m => m.id === targetMeldId);
-              if (meldIndex !== -1) {
-                  const newMelds = [...p.melds];
-                  const newMeldCards = [...newMelds[meldIndex].cards, card].sort((a,b) => a.value - b.value);
-                  newMelds[meldIndex] = { ...newMelds[meldIndex], cards: newMeldCards };
-                  updatedPlayer.melds = newMelds;
-              }
-              return updatedPlayer;
-          });
-
-          setPlayers(newPlayers);
-          setSelectedCardIds([]);
-          setNotification("Card added to phase!");
-          if (newHand.length === 0) {
-              endRound(player.id);
-          }
-      } else {
-          setNotification("That card doesn't fit in this phase.");
-      }
+    dispatch({ action: 'MELD', playerId: myPlayerIdRef.current, cardIds: selectedCardIds });
   };
 
   const handleHitMeld = (targetMeld: Meld) => {
-      const player = players[currentPlayerIndex];
-
       // Client Action Check
       if (isMultiplayer && !isHost) {
           if (selectedCardIds.length === 1) {
               sendClientAction({ action: 'HIT', cardId: selectedCardIds[0], meldId: targetMeld.id });
-              setSelectedCardIds([]);
           } else {
               setNotification("Select one card.");
           }
@@ -701,240 +1150,343 @@ const App: React.FC = () => {
           setNotification("Select exactly one card to hit.");
           return;
       }
-      
-      const cardId = selectedCardIds[0];
-      const card = player.hand.find(c => c.id === cardId);
-      if (!card) return;
-      executeHit(player, card, targetMeld.id);
+
+      dispatch({ action: 'HIT', playerId: myPlayerIdRef.current, cardId: selectedCardIds[0], meldId: targetMeld.id });
   };
 
-  const handleMeldDrop = (cardIndex: number, meldId: string) => {
-      const player = players[currentPlayerIndex];
-      if (cardIndex < 0 || cardIndex >= player.hand.length) return;
-      const card = player.hand[cardIndex];
+  const handleMeldDrop = (cardId: string, meldId: string) => {
+      const card = players.find(p => p.id === myPlayerIdRef.current)?.hand.find(c => c.id === cardId);
+      if (!card) return;
 
       // Client Action Check
       if (isMultiplayer && !isHost) {
            sendClientAction({ action: 'HIT', cardId: card.id, meldId });
            return;
       }
-      
-      if (turnPhase !== TurnPhase.ACTION || !player.hasLaidDownPhase) {
-          setNotification("You must lay down your phase first before hitting.");
-          return;
-      }
 
-      executeHit(player, card, meldId);
-  };
-
-  const endRound = (winnerId: string) => {
-    setRoundWinnerId(winnerId);
-    setGameState(GameState.ROUND_OVER);
-    
-    const updatedPlayers = players.map(p => {
-      if (p.id === winnerId) return { ...p, score: p.score };
-      return { ...p, score: p.score + calculateScore(p.hand) };
-    });
-
-    const finalPlayers = updatedPlayers.map(p => ({
-      ...p,
-      phaseIndex: p.hasLaidDownPhase ? Math.min(p.phaseIndex + 1, phases.length - 1) : p.phaseIndex
-    }));
-
-    setPlayers(finalPlayers);
+      dispatch({ action: 'HIT', playerId: myPlayerIdRef.current, cardId: card.id, meldId });
   };
 
   const nextRound = () => {
     if (isMultiplayer && !isHost) return; // Only Host advances
-    const isGameOver = players.some(p => p.phaseIndex === phases.length - 1 && p.hasLaidDownPhase);
-    
-    if (isGameOver) {
-      setGameState(GameState.GAME_OVER);
-    } else {
-      startRound(players);
-    }
+    startRound('NEXT_ROUND');
   };
 
-  const sortHand = () => {
-    // Sorting is tricky with P2P. We update local logic for finding index, 
-    // but actual state is source of truth.
-    // For simplicity, we just trigger a state update that reorders the hand in the array.
-    const player = players.find(p => p.id === myPlayerIdRef.current);
-    if (!player) return;
-
-    // We can't use simple sort locally because state will be overwritten by host sync.
-    // We must send reorder command if client.
-    
-    const sortedHand = [...player.hand].sort((a, b) => {
-       if (a.color === b.color) return a.value - b.value;
-       return a.color.localeCompare(b.color);
-    });
-
-    // We need to map new positions to old positions to send a 'move' command? 
-    // Too complex for this simple network protocol.
-    // Allow local sort override visual only? No, leads to desync on drag drop.
-    // For MVP: Host handles sort logic locally for themselves. Clients loose sort feature unless we implement 'REPLACE_HAND' action.
-    // Let's implement local sort just by updating state. If host overwrites, so be it.
-    // But better:
-    if (isMultiplayer && !isHost) {
-        // Not implemented for client in MVP to avoid complexity
-        setNotification("Sorting disabled for clients in this version.");
-        return;
-    }
-
-    // Host/Single Player logic
-    const pIdx = players.findIndex(p => p.id === player.id);
-    const newPlayers = [...players];
-    newPlayers[pIdx] = { ...player, hand: sortedHand };
-    setPlayers(newPlayers);
+  // Hand layout never reaches the host, so it works the same in every mode and never waits
+  const handleSortHand = (mode: HandSortMode) => {
+    setHandLayout({ mode, order: [] });
   };
 
-  const handleReorderHand = (fromIndex: number, toIndex: number) => {
-    if (isMultiplayer && !isHost) {
-        sendClientAction({ action: 'REORDER', fromIndex, toIndex });
-        return;
-    }
-
-    const newPlayers = [...players];
-    const playerIdx = players.findIndex(p => p.id === myPlayerIdRef.current);
-    if (playerIdx === -1) return;
-    const player = newPlayers[playerIdx];
-
-    const newHand = [...player.hand];
-    if (fromIndex < 0 || fromIndex >= newHand.length || toIndex < 0 || toIndex >= newHand.length) return;
-
-    const [movedCard] = newHand.splice(fromIndex, 1);
-    newHand.splice(toIndex, 0, movedCard);
-    
-    newPlayers[playerIdx] = { ...player, hand: newHand };
-    setPlayers(newPlayers);
+  const handleReorderHand = (cardId: string, targetId: string) => {
+    const order = arrangedHand.map(c => c.id);
+    setHandLayout({ mode: null, order: moveCard(order, cardId, targetId) });
   };
 
   // --- Bot Logic (Host Only) ---
 
   useEffect(() => {
-    if (gameState !== GameState.PLAYING) return;
+    if (game.gameState !== GameState.PLAYING) return;
     if (isMultiplayer && !isHost) return; // Clients don't run bots
 
     const player = players[currentPlayerIndex];
 
-    if (!player.isHuman) {
+    if (isBotControlled(player)) {
       botTimeoutRef.current = setTimeout(() => {
-        botPlayTurn(player);
+        const result = playBotTurn(gameRef.current);
+        if (result.ok) {
+          commitGame(result.state);
+          announceEvents(result.events, player.id);
+        }
       }, 1500);
     }
 
     return () => {
       if (botTimeoutRef.current) clearTimeout(botTimeoutRef.current);
     };
-  }, [currentPlayerIndex, gameState, players, isMultiplayer, isHost]);
-
-  const botPlayTurn = (bot: Player) => {
-    if (gameState !== GameState.PLAYING) return;
-
-    let currentHand = [...bot.hand];
-    let currentDeck = [...deck];
-    let currentDiscard = [...discardPile];
-
-    // 1. Draw
-    let cardDrawn: Card;
-    if (currentDeck.length > 0) {
-      cardDrawn = currentDeck.pop()!;
-    } else {
-      if (currentDiscard.length > 1) {
-        const top = currentDiscard.pop()!;
-        currentDeck = shuffleDeck(currentDiscard);
-        currentDiscard = [top];
-        cardDrawn = currentDeck.pop()!;
-      } else {
-        return;
-      }
-    }
-    currentHand.push(cardDrawn);
-    setDeck(currentDeck); 
-
-    // 2. Try Meld
-    let hasMeld = false;
-    if (!bot.hasLaidDownPhase && currentHand.length >= 6 && Math.random() > 0.85) {
-       hasMeld = true;
-       const reqCount = phases[bot.phaseIndex].requirements.reduce((a,b) => a + b.count, 0);
-       const meldCards = currentHand.slice(0, reqCount);
-       currentHand.splice(0, reqCount); 
-       
-       const botMeld: Meld = {
-           id: `bot-meld-${bot.id}-${Date.now()}`,
-           cards: meldCards,
-           type: RequirementType.SET, 
-           ownerId: bot.id
-       };
-       
-       const newPlayers = [...players];
-       const botIndex = newPlayers.findIndex(p => p.id === bot.id);
-       newPlayers[botIndex] = { ...bot, melds: [...bot.melds, botMeld] };
-       setPlayers(newPlayers); 
-    }
-    
-    const botUpdated: Player = {
-      ...bot,
-      hand: currentHand,
-      hasLaidDownPhase: bot.hasLaidDownPhase || hasMeld
-    };
-
-    // 3. Discard
-    const sortedHand = [...currentHand].sort((a, b) => b.value - a.value);
-    const discardCard = sortedHand.find(c => c.type !== CardType.WILD && c.type !== CardType.SKIP) || sortedHand[0];
-    
-    if (discardCard) {
-        performDiscard(botUpdated, discardCard);
-    }
-  };
+  }, [currentPlayerIndex, game.gameState, players, isMultiplayer, isHost]);
 
   // --- Renders ---
 
-  const myPlayer = players.find(p => p.id === myPlayerIdRef.current) || players[0];
-  const opponents = players.filter(p => p.id !== myPlayerIdRef.current);
-  const isMyTurn = myPlayer?.id === players[currentPlayerIndex]?.id;
+  const seatedPlayer = players.find(p => p.id === myPlayerIdRef.current);
+  // Spectators hold no seat and see the table from the side of whoever they follow
+  const isSpectator = isMultiplayer && !isHost && game.gameState !== GameState.LOBBY && !seatedPlayer;
+  const myPlayer = isSpectator ? players.find(p => p.id === followedId) || players[0] : seatedPlayer || players[0];
+  const opponents = players.filter(p => p.id !== myPlayer?.id);
+  const isMyTurn = !isSpectator && myPlayer?.id === players[currentPlayerIndex]?.id;
+
+  // Phase grouping is a hint of its own, so it follows the hint setting
+  const arrangedHand = useMemo(() => {
+    if (!myPlayer) return [];
+    if (!handLayout.mode) return arrangeHand(myPlayer.hand, handLayout.order);
+    const requirements = game.rules.allowHints && !myPlayer.hasLaidDownPhase ? phases[myPlayer.phaseIndex]?.requirements || null : null;
+    return sortHand(myPlayer.hand, handLayout.mode, requirements, game.rules);
+  }, [myPlayer, handLayout, phases, game.rules]);
+
+  const renderSettings = () => (
+    <div className="mb-6 p-4 bg-slate-700/50 rounded-lg">
+        <label className="block text-xs font-bold text-slate-400 uppercase mb-2 text-left">Turn Timer</label>
+        <div className="flex gap-2 justify-between">
+            {[15, 30, 60, 0].map(t => (
+                <button
+                    key={t}
+                    onClick={() => setTurnDuration(t)}
+                    className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${turnDuration === t ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                >
+                    {t === 0 ? 'None' : `${t}s`}
+                </button>
+            ))}
+        </div>
+        <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">House Rules</label>
+        <div className="flex gap-2 justify-between">
+            {RULE_PRESETS.map(preset => (
+                <button
+                    key={preset.id}
+                    onClick={() => setRules({ ...preset, tableSize: rules.tableSize, allowHints: rules.allowHints })}
+                    title={preset.description}
+                    className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${rules.id === preset.id ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                >
+                    {preset.name}
+                </button>
+            ))}
+        </div>
+        <div className="text-[10px] text-slate-500 mt-1 text-left">{rules.description}</div>
+        <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Hints</label>
+        <div className="flex gap-2 justify-between">
+            {[true, false].map(allowed => (
+                <button
+                    key={String(allowed)}
+                    onClick={() => setRules({ ...rules, allowHints: allowed })}
+                    className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${rules.allowHints === allowed ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                >
+                    {allowed ? 'On' : 'Off'}
+                </button>
+            ))}
+        </div>
+        <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Players</label>
+        <div className="flex gap-1 justify-between">
+            {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(n => (
+                <button
+                    key={n}
+                    onClick={() => {
+                        setRules({ ...rules, tableSize: n });
+                        setBotCount(Math.min(botCount, n - 1));
+                    }}
+                    className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${rules.tableSize === n ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                >
+                    {n}
+                </button>
+            ))}
+        </div>
+        {isMultiplayer && (
+            <>
+                <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Player Seats</label>
+                <div className="flex gap-1 justify-between">
+                    {Array.from({ length: rules.tableSize - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(n => (
+                        <button
+                            key={n}
+                            onClick={() => setMaxPlayers(n)}
+                            disabled={n < connectedClients.filter(c => !c.spectator).length + 1}
+                            className={`flex-1 py-1 rounded text-xs font-bold transition-colors disabled:opacity-30 ${Math.min(maxPlayers, rules.tableSize) === n ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                        >
+                            {n}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-[10px] text-slate-500 mt-1 text-left">How many people can join, you included.</div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Themed Phases · {getPhaseProviders()[0].name}</label>
+                <input
+                    type="text"
+                    placeholder="Standard phases"
+                    className="w-full px-3 py-1 bg-slate-900 border border-slate-600 rounded text-sm outline-none"
+                    value={themeInput}
+                    maxLength={60}
+                    onChange={(e) => {
+                        setThemeInput(e.target.value);
+                        setGeneratedPack(null);
+                    }}
+                />
+                <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Bots</label>
+                <div className="flex gap-1 justify-between">
+                    {Array.from({ length: rules.tableSize }, (_, i) => i).map(n => (
+                        <button
+                            key={n}
+                            onClick={() => setBotCount(n)}
+                            className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${botCount === n ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                        >
+                            {n}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-[10px] text-slate-500 mt-1 text-left">Bots only fill seats left open by connected players.</div>
+            </>
+        )}
+        <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Bot Difficulty</label>
+        <div className="grid grid-cols-4 gap-1">
+            {Array.from({ length: isMultiplayer ? botCount : rules.tableSize - 1 }, (_, i) => i).map(i => (
+                <button
+                    key={i}
+                    onClick={() => {
+                        // Click cycles Easy -> Normal -> Hard
+                        const order: BotDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+                        const next = [...botDifficulties];
+                        next[i] = order[(order.indexOf(botDifficulties[i]) + 1) % order.length];
+                        setBotDifficulties(next);
+                    }}
+                    className={`py-1 rounded text-[10px] font-bold transition-colors ${
+                        botDifficulties[i] === 'EASY' ? 'bg-emerald-700 text-emerald-100' :
+                        botDifficulties[i] === 'HARD' ? 'bg-red-700 text-red-100' : 'bg-slate-700 text-slate-300'
+                    }`}
+                >
+                    Bot {i + 1}: {BOT_PROFILES[botDifficulties[i]].name}
+                </button>
+            ))}
+        </div>
+        <label className="block text-xs font-bold text-slate-400 uppercase mt-4 mb-2 text-left">Game Seed</label>
+        <input
+            type="text"
+            placeholder="Random"
+            className="w-full px-3 py-1 bg-slate-900 border border-slate-600 rounded text-center uppercase tracking-widest font-mono text-sm outline-none"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+            maxLength={12}
+        />
+    </div>
+  );
+
+  // Repaired AI phases wait here until the host accepts them or asks for another set
+  const renderPackReview = () => generatedPack && (
+    <div className="text-left p-3 mb-2 bg-amber-900/20 border border-amber-500/30 rounded-lg">
+        <div className="text-xs font-bold text-amber-300 uppercase mb-1">Phases adjusted to fit the deck</div>
+        <ul className="text-xs text-amber-100/80 space-y-0.5 list-disc pl-4 max-h-28 overflow-y-auto">
+            {generatedPack.adjustments.map((note, i) => <li key={i}>{note}</li>)}
+        </ul>
+        <div className="text-[10px] text-slate-400 mt-2">
+            {generatedPack.phases.map(p => p.description).join(' → ')}
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-3">
+            <button
+                onClick={() => startGame(true, generatedPack.phases)}
+                className="py-2 bg-gradient-to-r from-fuchsia-600 to-purple-600 hover:from-fuchsia-500 hover:to-purple-500 rounded-lg font-bold text-sm"
+            >
+                Play These
+            </button>
+            <button
+                onClick={() => startGame(true)}
+                className="py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-bold text-sm"
+            >
+                Regenerate
+            </button>
+        </div>
+    </div>
+  );
 
   if (gameState === GameState.LOBBY) {
     if (showRoom) {
+       const room = isHost ? { seats: lobbySeats(), spectators: lobbySpectators(), settings: lobbySettings() } : lobby;
+       const mySeat = room?.seats.find(seat => seat.playerId === myPlayerIdRef.current);
+       const waitingFor = room ? room.seats.filter(seat => !seat.ready).length : 0;
+       const summary: [string, string][] = room ? [
+           ["Turn Timer", room.settings.turnDuration === 0 ? "None" : `${room.settings.turnDuration}s`],
+           ["House Rules", room.settings.rules.name],
+           ["Hints", room.settings.rules.allowHints ? "On" : "Off"],
+           ["Table", `${room.settings.rules.tableSize} seats, ${room.settings.botCount} ${room.settings.botCount === 1 ? 'bot' : 'bots'}`],
+           ["Phases", room.settings.theme || "Standard"]
+       ] : [];
+
        return (
            <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white p-4">
                {renderNotification()}
                <div className="max-w-md w-full text-center space-y-6">
                    <h2 className="text-3xl font-bold text-indigo-400">Lobby: {roomCode || "Waiting"}</h2>
-                   <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
-                       <div className="flex items-center justify-between p-3 bg-slate-700 rounded border border-indigo-500/30">
-                           <div className="flex items-center gap-3">
-                             <div className="w-8 h-8 rounded-full bg-indigo-600 flex items-center justify-center font-bold">{playerName.charAt(0)}</div>
-                             <span>{playerName} {isHost ? '(Host)' : ''}</span>
-                           </div>
+                   <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-2">
+                       <div className="flex justify-between text-left text-xs text-slate-400 uppercase font-bold">
+                           <span>Seats</span>
+                           {room && <span>{room.seats.length} / {room.settings.maxPlayers}</span>}
                        </div>
-                       
-                       <div className="text-left text-xs text-slate-400 uppercase font-bold mt-4">Connected Players</div>
-                       {connectedClients.length === 0 && <div className="text-sm text-slate-500 italic">Waiting for players to join...</div>}
-                       {connectedClients.map((c, i) => (
-                           <div key={i} className="flex items-center justify-between p-3 bg-slate-700 rounded">
+                       {!room && <div className="text-sm text-slate-500 italic">Waiting for the host...</div>}
+                       {room?.seats.map((seat, i) => (
+                           <div key={seat.playerId} className={`flex items-center justify-between p-3 bg-slate-700 rounded ${seat === mySeat ? 'border border-indigo-500/30' : ''}`}>
                                 <div className="flex items-center gap-3">
-                                    <div className="w-8 h-8 rounded-full bg-emerald-600 flex items-center justify-center font-bold">{c.name.charAt(0)}</div>
-                                    <span>{c.name}</span>
+                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${seat.isHost ? 'bg-indigo-600' : 'bg-emerald-600'}`}>{seat.name.charAt(0)}</div>
+                                    <span>{seat.name} {seat.isHost ? '(Host)' : seat === mySeat ? '(You)' : ''}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className={`text-xs font-bold ${seat.ready ? 'text-green-400' : 'text-slate-500'}`}>{seat.ready ? 'READY' : 'NOT READY'}</span>
+                                    {isHost && (
+                                        <>
+                                            <button onClick={() => moveSeat(seat.playerId, -1)} disabled={i === 0} title="Move up" className="px-1 text-slate-400 hover:text-white disabled:opacity-30">▲</button>
+                                            <button onClick={() => moveSeat(seat.playerId, 1)} disabled={i === room.seats.length - 1} title="Move down" className="px-1 text-slate-400 hover:text-white disabled:opacity-30">▼</button>
+                                            {!seat.isHost && (
+                                                <button onClick={() => kickPlayer(seat.playerId)} title="Remove from room" className="px-1 text-red-400 hover:text-red-300 font-bold">✕</button>
+                                            )}
+                                        </>
+                                    )}
                                 </div>
-                                <span className="text-green-400 text-xs font-bold">READY</span>
                            </div>
                        ))}
+                       {isHost && connectedClients.length === 0 && <div className="text-sm text-slate-500 italic">Waiting for players to join...</div>}
+                       {room && room.spectators.length > 0 && (
+                           <>
+                               <div className="text-left text-xs text-slate-400 uppercase font-bold pt-2">Watching</div>
+                               {room.spectators.map(spectator => (
+                                   <div key={spectator.playerId} className="flex items-center justify-between px-3 py-2 bg-slate-700/50 rounded text-sm">
+                                       <span className="text-slate-300">{spectator.name} {spectator.playerId === myPlayerIdRef.current ? '(You)' : ''}</span>
+                                       {isHost && (
+                                           <div className="flex items-center gap-2">
+                                               <button
+                                                   onClick={() => promoteSpectator(spectator.playerId, null)}
+                                                   disabled={room.seats.length >= room.settings.maxPlayers}
+                                                   title="Give them a seat"
+                                                   className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-xs font-bold disabled:opacity-30"
+                                               >
+                                                   Seat
+                                               </button>
+                                               <button onClick={() => kickPlayer(spectator.playerId)} title="Remove from room" className="px-1 text-red-400 hover:text-red-300 font-bold">✕</button>
+                                           </div>
+                                       )}
+                                   </div>
+                               ))}
+                           </>
+                       )}
                    </div>
-                   
-                   {isHost ? (
+
+                   {isHost ? renderSettings() : room && (
+                       <div className="grid grid-cols-2 gap-x-4 gap-y-1 p-4 bg-slate-700/50 rounded-lg text-left text-xs">
+                           {summary.map(([label, value]) => (
+                               <React.Fragment key={label}>
+                                   <span className="text-slate-400 uppercase font-bold">{label}</span>
+                                   <span className="text-slate-200 truncate">{value}</span>
+                               </React.Fragment>
+                           ))}
+                       </div>
+                   )}
+
+                   {isHost ? (generatedPack ? renderPackReview() : (
                        <button 
-                           onClick={() => startGame(false)}
-                           className="w-full py-4 bg-green-600 hover:bg-green-500 rounded-lg font-bold text-lg shadow-lg hover:shadow-green-500/20 transition-all"
+                           onClick={() => startGame(!!themeInput.trim())}
+                           disabled={waitingFor > 0}
+                           className="w-full py-4 bg-green-600 hover:bg-green-500 disabled:bg-slate-700 disabled:text-slate-400 rounded-lg font-bold text-lg shadow-lg hover:shadow-green-500/20 transition-all"
                        >
-                           Start Game
+                           {waitingFor > 0 ? `Waiting for ${waitingFor} to get ready` : "Start Game"}
                        </button>
-                   ) : (
-                       <div className="text-indigo-300 animate-pulse">Waiting for host to start...</div>
+                   )) : (
+                       <div className="space-y-3">
+                           {room?.spectators.some(spectator => spectator.playerId === myPlayerIdRef.current) ? (
+                               <div className="text-sm text-slate-400">You're watching. The host can give you a seat.</div>
+                           ) : (
+                           <button
+                               onClick={() => toggleReady(!mySeat?.ready)}
+                               disabled={!mySeat}
+                               className={`w-full py-4 rounded-lg font-bold text-lg transition-all disabled:opacity-50 ${mySeat?.ready ? 'bg-slate-700 hover:bg-slate-600' : 'bg-green-600 hover:bg-green-500'}`}
+                           >
+                               {mySeat?.ready ? "Not Ready" : "Ready"}
+                           </button>
+                           )}
+                           <div className="text-indigo-300 animate-pulse">Waiting for host to start...</div>
+                       </div>
                    )}
                    
-                   <button onClick={() => { setShowRoom(false); setIsHost(false); }} className="text-slate-400 hover:text-white underline">
+                   <button onClick={leaveRoom} className="text-slate-400 hover:text-white underline">
                        Leave Lobby
                    </button>
                </div>
@@ -968,21 +1520,8 @@ const App: React.FC = () => {
                 </button>
             </div>
 
-            {/* Game Settings Area */}
-            <div className="mb-6 p-4 bg-slate-700/50 rounded-lg">
-                <label className="block text-xs font-bold text-slate-400 uppercase mb-2 text-left">Turn Timer</label>
-                <div className="flex gap-2 justify-between">
-                    {[15, 30, 60, 0].map(t => (
-                        <button
-                            key={t}
-                            onClick={() => { if(!isMultiplayer || isHost) setTurnDuration(t); }}
-                            className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${turnDuration === t ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
-                        >
-                            {t === 0 ? 'None' : `${t}s`}
-                        </button>
-                    ))}
-                </div>
-            </div>
+            {/* Game Settings Area: multiplayer hosts choose these in the room, where everyone can see them */}
+            {!isMultiplayer && renderSettings()}
 
             {!isMultiplayer ? (
                 // Single Player Options
@@ -995,21 +1534,26 @@ const App: React.FC = () => {
                     </button>
                     
                     <div className="pt-4 border-t border-slate-700">
-                        <label className="block text-left text-xs text-indigo-300 mb-2 uppercase font-bold">AI Generated Mode</label>
+                        <label className="block text-left text-xs text-indigo-300 mb-2 uppercase font-bold">Themed Mode · {getPhaseProviders()[0].name}</label>
                         <input 
                         type="text" 
                         placeholder="Enter a theme (e.g. 'Cyberpunk')"
                         className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none mb-2"
                         value={themeInput}
-                        onChange={(e) => setThemeInput(e.target.value)}
+                        onChange={(e) => {
+                            setThemeInput(e.target.value);
+                            setGeneratedPack(null);
+                        }}
                         />
-                        <button 
-                        onClick={() => startGame(true)}
-                        disabled={!themeInput.trim()}
-                        className="w-full py-3 bg-gradient-to-r from-fuchsia-600 to-purple-600 hover:from-fuchsia-500 hover:to-purple-500 rounded-lg font-bold transition-all disabled:opacity-50"
-                        >
-                        Generate & Play
-                        </button>
+                        {generatedPack ? renderPackReview() : (
+                            <button 
+                            onClick={() => startGame(true)}
+                            disabled={!themeInput.trim()}
+                            className="w-full py-3 bg-gradient-to-r from-fuchsia-600 to-purple-600 hover:from-fuchsia-500 hover:to-purple-500 rounded-lg font-bold transition-all disabled:opacity-50"
+                            >
+                            Generate & Play
+                            </button>
+                        )}
                     </div>
                 </div>
             ) : (
@@ -1020,8 +1564,20 @@ const App: React.FC = () => {
                         placeholder="Your Name"
                         className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg outline-none"
                         value={playerName}
+                        maxLength={24}
                         onChange={(e) => setPlayerName(e.target.value)}
                     />
+                    <div className="flex gap-2 justify-between">
+                        {getTransports().map(t => (
+                            <button
+                                key={t.id}
+                                onClick={() => setTransportId(t.id)}
+                                className={`flex-1 py-1 rounded text-xs font-bold transition-colors ${transportId === t.id ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                            >
+                                {t.name}
+                            </button>
+                        ))}
+                    </div>
                     <div className="grid grid-cols-2 gap-2">
                         <button 
                             onClick={createRoom}
@@ -1038,17 +1594,27 @@ const App: React.FC = () => {
                                 onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
                                 maxLength={5}
                             />
-                            <button 
-                                onClick={joinRoom}
-                                disabled={isJoining}
-                                className="py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded font-bold text-sm relative"
-                            >
-                                {isJoining ? "Connecting..." : "Join"}
-                            </button>
+                            <div className="grid grid-cols-2 gap-1">
+                                <button 
+                                    onClick={() => joinRoom(false)}
+                                    disabled={isJoining}
+                                    className="py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded font-bold text-sm relative"
+                                >
+                                    {isJoining ? "..." : "Join"}
+                                </button>
+                                <button
+                                    onClick={() => joinRoom(true)}
+                                    disabled={isJoining}
+                                    title="Watch the game without taking a seat"
+                                    className="py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded font-bold text-sm text-slate-300"
+                                >
+                                    Watch
+                                </button>
+                            </div>
                         </div>
                     </div>
                     <div className="text-[10px] text-slate-500 italic">
-                        * P2P via PeerJS
+                        * {transport?.description}
                     </div>
                 </div>
             )}
@@ -1069,7 +1635,7 @@ const App: React.FC = () => {
   }
 
   if (gameState === GameState.ROUND_OVER || gameState === GameState.GAME_OVER) {
-    const sortedPlayers = [...players].sort((a, b) => a.score - b.score);
+    const sortedPlayers = gameState === GameState.GAME_OVER ? getStandings(game) : [...players].sort((a, b) => a.score - b.score);
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900/90 text-white z-50 fixed inset-0 backdrop-blur-md">
         <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl max-w-lg w-full border border-slate-700">
@@ -1093,9 +1659,63 @@ const App: React.FC = () => {
              ))}
            </div>
 
+           {isSpectator && (
+             <div className="mb-6">
+               <div className="text-xs text-slate-400 uppercase font-bold mb-2">Watch the next round from</div>
+               <div className="flex flex-wrap gap-2">
+                 {players.map(p => (
+                   <button
+                     key={p.id}
+                     onClick={() => setFollowedId(p.id)}
+                     className={`px-3 py-1 rounded text-xs font-bold transition-colors ${myPlayer?.id === p.id ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                   >
+                     {p.name}
+                   </button>
+                 ))}
+               </div>
+             </div>
+           )}
+
+           {isHost && gameState === GameState.ROUND_OVER && connectedClients.some(c => c.spectator) && (
+             <div className="mb-6 space-y-1">
+               <div className="text-xs text-slate-400 uppercase font-bold mb-2">Spectators</div>
+               {connectedClients.filter(c => c.spectator).map(c => (
+                 <div key={c.peerId} className="flex items-center justify-between gap-2 p-2 bg-slate-700/30 rounded">
+                   <span className="text-sm">{c.name}</span>
+                   <div className="flex flex-wrap gap-1 justify-end">
+                     {players.filter(isBotControlled).map(p => (
+                       <button
+                         key={p.id}
+                         onClick={() => promoteSpectator(c.peerId, p.id)}
+                         className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-xs font-bold"
+                       >
+                         Take {p.name}'s seat
+                       </button>
+                     ))}
+                     {players.length < game.rules.tableSize && (
+                       <button
+                         onClick={() => promoteSpectator(c.peerId, null)}
+                         className="px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-500 text-xs font-bold"
+                       >
+                         New seat
+                       </button>
+                     )}
+                   </div>
+                 </div>
+               ))}
+             </div>
+           )}
+
+           {/* Clients only learn the host's seed when the game is over */}
+           {game.seed && (isHost || !isMultiplayer || gameState === GameState.GAME_OVER) && (
+             <div className="text-center text-xs text-slate-500 mb-4">
+               Seed <span className="font-mono font-bold text-slate-300 tracking-widest select-all">{game.seed}</span>
+             </div>
+           )}
+
            {isHost ? (
                <button 
-                 onClick={gameState === GameState.GAME_OVER ? () => setGameState(GameState.LOBBY) : nextRound}
+                 onClick={gameState === GameState.GAME_OVER ? () => commitGame({ ...gameRef.current, gameState: GameState.LOBBY }) : nextRound}
                  className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold text-lg shadow-lg hover:shadow-indigo-500/25 transition-all"
                >
                  {gameState === GameState.GAME_OVER ? "Back to Menu" : "Next Round"}
@@ -1112,29 +1732,43 @@ const App: React.FC = () => {
   if (!myPlayer) return <div>Loading...</div>;
 
   return (
-    <GameBoard 
-      currentPlayer={myPlayer}
-      opponents={opponents}
-      drawPileCount={deck.length}
-      discardPileTop={discardPile[discardPile.length - 1] || null}
-      currentPhase={phases[myPlayer.phaseIndex]}
-      turnPhase={turnPhase}
-      selectedCards={selectedCardIds}
-      onCardClick={handleCardClick}
-      onDrawPileClick={() => handleDraw(false)}
-      onDiscardPileClick={() => handleDraw(true)}
-      onDiscardAction={handleDiscard}
-      onTryMeld={handleMeld}
-      onMeldClick={handleHitMeld}
-      onMeldDrop={handleMeldDrop}
-      message={notification}
-      onDismissMessage={dismissNotification}
-      onSortHand={sortHand}
-      onReorderHand={handleReorderHand}
-      isActivePlayer={isMyTurn}
-      timeLeft={timeLeft}
-      totalTime={turnDuration}
-    />
+    <>
+      <GameBoard 
+        currentPlayer={{ ...myPlayer, hand: arrangedHand }}
+        opponents={opponents}
+        drawPileCount={deck.length}
+        discardPileTop={discardPile[discardPile.length - 1] || null}
+        currentPhase={phases[myPlayer.phaseIndex]}
+        turnPhase={turnPhase}
+        selectedCards={selectedCardIds}
+        onCardClick={handleCardClick}
+        onDrawPileClick={() => handleDraw(false)}
+        onDiscardPileClick={() => handleDraw(true)}
+        onDiscardAction={handleDiscard}
+        onTryMeld={handleMeld}
+        onMeldClick={handleHitMeld}
+        onMeldDrop={handleMeldDrop}
+        message={notification}
+        onDismissMessage={dismissNotification}
+        sortModes={isSpectator ? [] : game.rules.allowHints ? ['COLOR', 'VALUE', 'PHASE'] : ['COLOR', 'VALUE']}
+        sortMode={handLayout.mode}
+        onSortHand={handleSortHand}
+        onReorderHand={handleReorderHand}
+        isActivePlayer={isMyTurn}
+        timeLeft={timeLeft}
+        totalTime={turnDuration}
+        allowSkipPickup={game.rules.allowSkipPickup}
+        meldIssues={meldIssues}
+        onDismissMeldIssues={() => setMeldIssues([])}
+        hint={hint}
+        onHint={game.rules.allowHints && !isSpectator ? handleHint : undefined}
+        onSelectHint={handleSelectHint}
+        onDismissHint={() => setHint(null)}
+        pendingAction={pendingAction?.action || null}
+        spectating={isSpectator}
+      />
+      {isMultiplayer && <SyncDebugPanel stats={syncStats} role={isHost ? 'Host' : 'Client'} />}
+    </>
   );
 };
 
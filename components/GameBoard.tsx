@@ -1,7 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { Player, Card, Phase, TurnPhase, Meld, CardType } from '../types';
+import { Player, Card, Phase, TurnPhase, Meld, CardType, MeldIssue, NetworkActionType, HandSortMode } from '../types';
+import { REQUIREMENT_INFO } from '../constants';
+import { getHandSize } from '../utils/gameEngine';
+import { PhaseHint } from '../utils/gameUtils';
 import CardComponent from './CardComponent';
 
+// Shown while a remote player's action waits for the host
+const PENDING_LABELS: Record<NetworkActionType, string> = {
+  DRAW: "Drawing...",
+  DISCARD: "Discarding...",
+  MELD: "Checking your phase...",
+  HIT: "Playing your card...",
+  START_GAME: "Waiting for the host...",
+  NEXT_ROUND: "Waiting for the host..."
+};
+
+const SORT_LABELS: Record<HandSortMode, string> = {
+  COLOR: "Colour",
+  VALUE: "Value",
+  PHASE: "Phase"
+};
+
 interface GameBoardProps {
   currentPlayer: Player;
   opponents: Player[];
@@ -16,14 +35,25 @@ interface GameBoardProps {
   onDiscardAction: () => void;
   onTryMeld: () => void;
   onMeldClick: (meld: Meld) => void;
-  onMeldDrop: (cardIndex: number, meldId: string) => void;
+  onMeldDrop: (cardId: string, meldId: string) => void;
   message: string;
   onDismissMessage: () => void;
-  onSortHand: () => void;
-  onReorderHand: (fromIndex: number, toIndex: number) => void;
+  sortModes: HandSortMode[];
+  sortMode?: HandSortMode | null; // Null once the player has arranged the hand by hand
+  onSortHand: (mode: HandSortMode) => void;
+  onReorderHand: (cardId: string, targetCardId: string) => void; // Drops the card where the target sits
   isActivePlayer: boolean;
   timeLeft?: number;
   totalTime?: number;
+  allowSkipPickup?: boolean;
+  meldIssues?: MeldIssue[];
+  onDismissMeldIssues?: () => void;
+  hint?: PhaseHint | null;
+  onHint?: () => void; // Left out when the room has hints turned off
+  onSelectHint?: () => void;
+  onDismissHint?: () => void;
+  pendingAction?: NetworkActionType | null; // Sent to the host, not yet answered
+  spectating?: boolean; // Read-only: currentPlayer is whoever the spectator follows, hand hidden
 }
 
 const GameBoard: React.FC<GameBoardProps> = ({
@@ -43,11 +73,22 @@ const GameBoard: React.FC<GameBoardProps> = ({
   onMeldDrop,
   message,
   onDismissMessage,
+  sortModes,
+  sortMode = null,
   onSortHand,
   onReorderHand,
   isActivePlayer,
   timeLeft = 0,
-  totalTime = 0
+  totalTime = 0,
+  allowSkipPickup = false,
+  meldIssues = [],
+  onDismissMeldIssues,
+  hint = null,
+  onHint,
+  onSelectHint,
+  onDismissHint,
+  pendingAction = null,
+  spectating = false
 }) => {
   
   const [isHelpOpen, setIsHelpOpen] = useState(false);
@@ -62,18 +103,29 @@ const GameBoard: React.FC<GameBoardProps> = ({
     }
   }, [isActivePlayer, turnPhase]);
 
-  const isMyTurn = isActivePlayer;
+  // Nothing else can be played until the host answers the last action
+  const isMyTurn = isActivePlayer && !pendingAction && !spectating;
+  // Tables of 6+ players need a denser opponent strip
+  const compactOpponents = opponents.length > 4;
   
   // Allow discard in ACTION phase (to end turn without melding) or DISCARD phase
   const canDiscard = isMyTurn && (turnPhase === TurnPhase.DISCARD || turnPhase === TurnPhase.ACTION) && selectedCards.length === 1;
   const canMeld = isMyTurn && turnPhase === TurnPhase.ACTION && selectedCards.length > 0;
 
+  const canTakeDiscard = isMyTurn && turnPhase === TurnPhase.DRAW && !!discardPileTop && (allowSkipPickup || discardPileTop.type !== CardType.SKIP);
+
+  // Cards a failed meld complained about
+  const flaggedCardIds = new Set(meldIssues.flatMap(issue => issue.cardIds));
+  // Cards the last hint pointed at
+  const hintedCardIds = new Set(hint && !currentPlayer.hasLaidDownPhase ? hint.cardIds : []);
+  const canSelectHint = !!hint?.complete && isMyTurn && turnPhase === TurnPhase.ACTION;
+
   // Hitting Logic: Can hit if in Action phase, Phase laid down.
   const canHit = isMyTurn && turnPhase === TurnPhase.ACTION && currentPlayer.hasLaidDownPhase;
 
-  // Drag Handlers for Hand Reordering
-  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
-    e.dataTransfer.setData('text/plain', index.toString());
+  // Drag Handlers for Hand Reordering. Cards travel by id, so the layout can change underneath a drag.
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, cardId: string) => {
+    e.dataTransfer.setData('text/plain', cardId);
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -83,16 +135,13 @@ const GameBoard: React.FC<GameBoardProps> = ({
   };
 
   // Drop on Hand (Reorder)
-  const handleDropHand = (e: React.DragEvent<HTMLDivElement>, targetIndex: number) => {
+  const handleDropHand = (e: React.DragEvent<HTMLDivElement>, targetCardId: string) => {
     e.preventDefault();
     e.stopPropagation();
-    const sourceIndexStr = e.dataTransfer.getData('text/plain');
-    if (!sourceIndexStr) return;
-    
-    const sourceIndex = parseInt(sourceIndexStr, 10);
-    if (isNaN(sourceIndex) || sourceIndex === targetIndex) return;
+    const cardId = e.dataTransfer.getData('text/plain');
+    if (!cardId || cardId === targetCardId) return;
 
-    onReorderHand(sourceIndex, targetIndex);
+    onReorderHand(cardId, targetCardId);
   };
 
   // Drop on Meld (Hit)
@@ -101,13 +150,10 @@ const GameBoard: React.FC<GameBoardProps> = ({
     e.stopPropagation();
     if (!canHit) return;
 
-    const sourceIndexStr = e.dataTransfer.getData('text/plain');
-    if (!sourceIndexStr) return;
-    
-    const cardIndex = parseInt(sourceIndexStr, 10);
-    if (isNaN(cardIndex)) return;
+    const cardId = e.dataTransfer.getData('text/plain');
+    if (!cardId) return;
 
-    onMeldDrop(cardIndex, meldId);
+    onMeldDrop(cardId, meldId);
   };
 
   const renderMeld = (meld: Meld, ownerName: string) => (
@@ -122,16 +168,24 @@ const GameBoard: React.FC<GameBoardProps> = ({
       `}
     >
       <div className="text-xs text-slate-300 mb-2 font-bold tracking-wider flex justify-between items-center">
-        <span>{ownerName} • {meld.type}</span>
+        <span>{ownerName} • {REQUIREMENT_INFO[meld.type]?.label || meld.type}</span>
         {canHit && <span className="text-[10px] bg-indigo-600 text-white px-1.5 py-0.5 rounded animate-pulse">DROP HERE</span>}
       </div>
       <div className="flex flex-wrap gap-1 pl-1">
         <div className="flex -space-x-6">
-            {meld.cards.map(c => (
-            <div key={c.id} className="hover:-translate-y-2 transition-transform duration-200">
-                <CardComponent card={c} size="sm" />
-            </div>
-            ))}
+            {meld.cards.map(c => {
+              // Show what each wild is standing in for
+              const stand = meld.wilds.find(w => w.cardId === c.id);
+              const label = stand?.value ?? stand?.color?.charAt(0);
+              return (
+                <div key={c.id} className="relative hover:-translate-y-2 transition-transform duration-200">
+                    <CardComponent card={c} size="sm" />
+                    {label !== undefined && (
+                      <div className="absolute -top-2 right-0 text-[10px] font-bold bg-yellow-400 text-black rounded px-1 shadow">={label}</div>
+                    )}
+                </div>
+              );
+            })}
         </div>
       </div>
     </div>
@@ -162,24 +216,39 @@ const GameBoard: React.FC<GameBoardProps> = ({
 
       {/* Top Bar: Opponents & Game Info */}
       <div className="flex-none bg-slate-800 p-2 md:p-4 shadow-md z-10 flex justify-between items-center mt-1">
-         <div className="flex gap-6 overflow-x-auto scrollbar-hide px-2">
+         <div className={`flex overflow-x-auto scrollbar-hide px-2 min-w-0 ${compactOpponents ? 'gap-2 md:gap-3' : 'gap-6'}`}>
           {opponents.map((opp) => (
-            <div key={opp.id} className={`flex flex-col items-center transition-opacity ${opp.isSkipped ? 'opacity-50 grayscale' : 'opacity-90'}`}>
+            <div key={opp.id} className={`flex flex-col items-center flex-none transition-opacity ${opp.isSkipped ? 'opacity-50 grayscale' : 'opacity-90'}`}>
               <div className="relative">
-                <div className="w-10 h-10 md:w-12 md:h-12 rounded-full bg-indigo-600 flex items-center justify-center font-bold mb-1 border-2 border-indigo-400 shadow-lg">
+                <div className={`${compactOpponents ? 'w-8 h-8 md:w-10 md:h-10 text-sm' : 'w-10 h-10 md:w-12 md:h-12'} rounded-full bg-indigo-600 flex items-center justify-center font-bold mb-1 border-2 border-indigo-400 shadow-lg`}>
                   {opp.name.charAt(0)}
                 </div>
                 {opp.hasLaidDownPhase && (
                   <div className="absolute -bottom-1 -right-1 w-5 h-5 bg-green-500 rounded-full border-2 border-slate-800 flex items-center justify-center text-[10px]">✓</div>
                 )}
+                {opp.isDisconnected && (
+                  <div
+                    title={opp.botStandIn ? "Disconnected, a bot is playing for them" : "Disconnected, waiting for them to rejoin"}
+                    className="absolute -top-1 -right-2 px-1 rounded bg-amber-500 border border-slate-800 text-[8px] font-bold uppercase text-slate-900"
+                  >
+                    {opp.botStandIn ? 'Bot' : 'Offline'}
+                  </div>
+                )}
               </div>
-              <div className="text-xs text-slate-400 max-w-[60px] truncate text-center">{opp.name}</div>
+              <div className={`text-xs text-slate-400 truncate text-center ${compactOpponents ? 'max-w-[48px]' : 'max-w-[60px]'}`}>{opp.name}</div>
               <div className="text-[10px] text-slate-500">P-{opp.phaseIndex + 1}</div>
-              <div className="flex -space-x-6 mt-1">
-                 {Array.from({ length: Math.min(opp.hand.length, 5) }).map((_, i) => (
-                   <div key={i} className="w-6 h-8 md:w-8 md:h-10 bg-slate-600 rounded border border-slate-500 shadow-sm" />
-                 ))}
-              </div>
+              {compactOpponents ? (
+                 // Crowded tables show a count instead of a fanned stack
+                 <div className="mt-1 px-1.5 h-5 min-w-[24px] bg-slate-600 rounded border border-slate-500 text-[10px] font-mono flex items-center justify-center">
+                   {getHandSize(opp)}
+                 </div>
+              ) : (
+                <div className="flex -space-x-6 mt-1">
+                   {Array.from({ length: Math.min(getHandSize(opp), 5) }).map((_, i) => (
+                     <div key={i} className="w-6 h-8 md:w-8 md:h-10 bg-slate-600 rounded border border-slate-500 shadow-sm" />
+                   ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -202,6 +271,17 @@ const GameBoard: React.FC<GameBoardProps> = ({
            <div>
               <h2 className="text-xs uppercase tracking-widest text-slate-400">Goal</h2>
               <div className="font-bold text-indigo-300 text-sm md:text-base">{currentPhase?.description}</div>
+              <div className="flex flex-wrap gap-1 mt-0.5">
+                {currentPhase?.requirements.map((req, i) => (
+                  <span
+                    key={i}
+                    title={REQUIREMENT_INFO[req.type]?.rule}
+                    className="text-[10px] bg-slate-700/70 text-slate-300 px-1.5 rounded cursor-help"
+                  >
+                    {REQUIREMENT_INFO[req.type]?.label} · {req.count}
+                  </span>
+                ))}
+              </div>
               <div className="text-xs text-slate-500">Phase {currentPhase?.id}</div>
            </div>
         </div>
@@ -250,8 +330,8 @@ const GameBoard: React.FC<GameBoardProps> = ({
             <div className="relative w-20 h-28 md:w-24 md:h-36 border-4 border-dashed border-slate-700 rounded-xl flex items-center justify-center">
               {discardPileTop ? (
                 <div 
-                  onClick={isMyTurn && turnPhase === TurnPhase.DRAW && discardPileTop.type !== CardType.SKIP ? onDiscardPileClick : undefined}
-                  className={`absolute inset-0 ${isMyTurn && turnPhase === TurnPhase.DRAW && discardPileTop.type !== CardType.SKIP ? 'cursor-pointer hover:-translate-y-2' : ''} transition-transform`}
+                  onClick={canTakeDiscard ? onDiscardPileClick : undefined}
+                  className={`absolute inset-0 ${canTakeDiscard ? 'cursor-pointer hover:-translate-y-2' : ''} transition-transform`}
                 >
                   <CardComponent card={discardPileTop} size="md" />
                 </div>
@@ -306,9 +386,9 @@ const GameBoard: React.FC<GameBoardProps> = ({
           {/* Controls Row */}
           <div className="flex justify-between items-center">
              <div className="flex items-center gap-2">
-                <div className={`w-3 h-3 rounded-full ${isMyTurn ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
+                <div className={`w-3 h-3 rounded-full ${pendingAction ? 'bg-amber-400 animate-pulse' : isMyTurn ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
                 <span className="text-sm font-bold text-slate-300">
-                  {isMyTurn ? (
+                  {spectating ? `Watching ${currentPlayer.name}` : pendingAction ? PENDING_LABELS[pendingAction] : isMyTurn ? (
                     turnPhase === TurnPhase.DRAW ? "Draw a card" :
                     turnPhase === TurnPhase.ACTION ? (
                       canHit ? "Drag card to Phase to HIT or Discard" : "Meld Phase or Discard"
@@ -319,14 +399,29 @@ const GameBoard: React.FC<GameBoardProps> = ({
              </div>
              
              <div className="flex gap-2">
-                <button 
-                  onClick={onSortHand}
-                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded text-xs font-bold uppercase tracking-wider text-white transition-colors"
-                >
-                  Sort
-                </button>
+                <div className="flex rounded overflow-hidden" title="Sort your hand. Drag cards to arrange them yourself.">
+                  {sortModes.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => onSortHand(mode)}
+                      className={`px-3 py-2 text-xs font-bold uppercase tracking-wider transition-colors ${sortMode === mode ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-white'}`}
+                    >
+                      {SORT_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
 
-                {turnPhase === TurnPhase.ACTION && !currentPlayer.hasLaidDownPhase && (
+                {onHint && !currentPlayer.hasLaidDownPhase && (
+                  <button
+                    onClick={onHint}
+                    title="Search your hand for this phase"
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded text-xs font-bold uppercase tracking-wider text-amber-300 transition-colors"
+                  >
+                    Hint
+                  </button>
+                )}
+
+                {!spectating && turnPhase === TurnPhase.ACTION && !currentPlayer.hasLaidDownPhase && (
                   <button
                     onClick={onTryMeld}
                     disabled={!canMeld}
@@ -339,7 +434,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
                 )}
 
                 {/* Show Discard Button in both ACTION and DISCARD phases */}
-                {(turnPhase === TurnPhase.DISCARD || turnPhase === TurnPhase.ACTION) && (
+                {!spectating && (turnPhase === TurnPhase.DISCARD || turnPhase === TurnPhase.ACTION) && (
                    <button
                      onClick={onDiscardAction}
                      disabled={!canDiscard}
@@ -353,17 +448,56 @@ const GameBoard: React.FC<GameBoardProps> = ({
              </div>
           </div>
 
+          {/* Meld Feedback: why the last Play Phase attempt failed */}
+          {meldIssues.length > 0 && (
+            <div className="flex items-start justify-between gap-3 bg-red-950/40 border border-red-500/30 rounded-lg px-4 py-2">
+              <ul className="text-xs text-red-200 space-y-0.5">
+                {meldIssues.map((issue, i) => (
+                  <li key={i} className="flex items-center gap-2">
+                    <span className="text-[10px] font-bold bg-red-500/20 text-red-300 px-1.5 rounded">
+                      {issue.requirementIndex === null ? 'Selection' : `Group ${issue.requirementIndex + 1}`}
+                    </span>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {onDismissMeldIssues && (
+                <button onClick={onDismissMeldIssues} className="text-red-300 hover:text-white font-bold text-xs">✕</button>
+              )}
+            </div>
+          )}
+
+          {/* Hint: the phase found in the hand, or how far off it is */}
+          {hint && !currentPlayer.hasLaidDownPhase && (
+            <div className="flex items-center justify-between gap-3 bg-amber-950/40 border border-amber-500/30 rounded-lg px-4 py-2">
+              <span className="text-xs text-amber-200">{hint.message}</span>
+              <div className="flex items-center gap-3">
+                {canSelectHint && onSelectHint && (
+                  <button onClick={onSelectHint} className="px-3 py-1 bg-amber-600 hover:bg-amber-500 rounded text-[10px] font-bold uppercase tracking-wider text-white">
+                    Select These
+                  </button>
+                )}
+                {onDismissHint && (
+                  <button onClick={onDismissHint} className="text-amber-300 hover:text-white font-bold text-xs">✕</button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Hand */}
           <div className="flex justify-center overflow-x-auto pb-4 pt-2 px-4 scrollbar-hide min-h-[150px]">
             <div className="flex -space-x-8 md:-space-x-10 min-w-fit hover:space-x-1 transition-all duration-300">
-              {currentPlayer.hand.map((card, index) => (
+              {spectating && Array.from({ length: getHandSize(currentPlayer) }).map((_, i) => (
+                <div key={i} className="w-24 h-36 bg-slate-600 rounded-xl border-2 border-slate-500 shadow-lg" />
+              ))}
+              {currentPlayer.hand.map(card => (
                 <div 
                   key={card.id}
                   draggable
-                  onDragStart={(e) => handleDragStart(e, index)}
+                  onDragStart={(e) => handleDragStart(e, card.id)}
                   onDragOver={handleDragOver}
-                  onDrop={(e) => handleDropHand(e, index)}
-                  className="transition-transform hover:-translate-y-6 duration-200 cursor-grab active:cursor-grabbing"
+                  onDrop={(e) => handleDropHand(e, card.id)}
+                  className="relative transition-transform hover:-translate-y-6 duration-200 cursor-grab active:cursor-grabbing"
                 >
                   <CardComponent 
                     card={card} 
@@ -371,6 +505,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
                     isSelected={selectedCards.includes(card.id)}
                     onClick={() => onCardClick(card)}
                   />
+                  {hintedCardIds.has(card.id) && !selectedCards.includes(card.id) && !flaggedCardIds.has(card.id) && (
+                    <div className="absolute inset-0 rounded-xl ring-2 ring-amber-400 shadow-[0_0_12px_rgba(251,191,36,0.6)] pointer-events-none" />
+                  )}
+                  {flaggedCardIds.has(card.id) && (
+                    <div className="absolute -top-5 right-1 z-10 w-6 h-6 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center shadow-lg pointer-events-none">!</div>
+                  )}
                 </div>
               ))}
             </div>
@@ -400,7 +540,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
                             <li><span className="text-indigo-300 font-semibold">Draw</span>: Pick up a card.</li>
                             <li><span className="text-indigo-300 font-semibold">Action</span>: 
                               <ul className="list-disc list-inside ml-4 text-slate-400">
-                                <li><strong>Meld:</strong> If you have the cards for your phase, lay them down.</li>
+                                <li><strong>Meld:</strong> If you have the cards for your phase, lay them down.{onHint && <> Stuck? <strong>Hint</strong> finds the phase in your hand, or tells you what's missing.</>}</li>
                                 <li><strong>Hit:</strong> Once you have laid down your phase, you can add cards to <em>any</em> existing phase on the board. Drag a card from your hand onto a Phase.</li>
                                 <li><strong>Discard:</strong> Discard 1 card to end turn.</li>
                               </ul>
@@ -408,9 +548,20 @@ const GameBoard: React.FC<GameBoardProps> = ({
                         </ol>
                     </section>
 
+                    <section>
+                        <h3 className="font-bold text-white mb-1">Phase Requirements</h3>
+                        <p className="mb-1">The number is how many cards the group needs. Wilds can stand in for any card.</p>
+                        <ul className="space-y-1 ml-2">
+                            {Object.entries(REQUIREMENT_INFO).map(([type, info]) => (
+                              <li key={type}><span className="text-indigo-300 font-semibold">{info.label}</span>: {info.rule}.</li>
+                            ))}
+                        </ul>
+                    </section>
+
                     <section>
                         <h3 className="font-bold text-white mb-1">Hitting Rules</h3>
                         <p>You must complete your own phase before you can hit on others. Hitting allows you to get rid of extra cards.</p>
+                        <p className="mt-1 text-slate-400">Runs and Color Runs grow at either end. Sets, Colors and Even/Odd groups take any matching card. Pairs can't be hit, since one card can't make a pair.</p>
                     </section>
                 </div>
                 
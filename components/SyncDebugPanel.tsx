@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { SyncStats } from '../types';
+
+interface SyncDebugPanelProps {
+  stats: SyncStats;
+  role: 'Host' | 'Client';
+}
+
+// Collapsed to a small tab so it never covers the table
+const SyncDebugPanel: React.FC<SyncDebugPanelProps> = ({ stats, role }) => {
+  const [open, setOpen] = useState(false);
+  const troubled = stats.desyncs > 0 || stats.gaps > 0;
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className={`fixed bottom-2 left-2 z-[90] px-2 py-1 rounded text-[10px] font-mono font-bold bg-slate-800/80 border ${troubled ? 'border-amber-500 text-amber-400' : 'border-slate-700 text-slate-500'} hover:text-white`}
+      >
+        Sync{troubled ? ` ⚠ ${stats.desyncs + stats.gaps}` : ''}
+      </button>
+    );
+  }
+
+  const rows: [string, string | number][] = [
+    [role === 'Host' ? 'Updates sent' : 'Updates applied', stats.updates],
+    ['Deltas', stats.deltas],
+    ['Sequence gaps', stats.gaps],
+    ['Hash mismatches', stats.desyncs],
+    [role === 'Host' ? 'Resyncs served' : 'Resyncs requested', stats.resyncs],
+    ['Last update', stats.lastSeq === null ? '-' : `#${stats.lastSeq}`],
+    ['State hash', stats.lastHash || '-']
+  ];
+
+  return (
+    <div className="fixed bottom-2 left-2 z-[90] w-56 bg-slate-800/95 border border-slate-700 rounded-lg shadow-xl p-3 text-xs font-mono text-slate-300">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold text-slate-400 uppercase">Sync · {role}</span>
+        <button onClick={() => setOpen(false)} className="text-slate-500 hover:text-white font-bold px-1">✕</button>
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-slate-500">{label}</span>
+          <span className={(label === 'Hash mismatches' || label === 'Sequence gaps') && value !== 0 ? 'text-amber-400 font-bold' : ''}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SyncDebugPanel;
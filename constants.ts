@@ -1,4 +1,4 @@
-import { CardColor, CardType, Phase, RequirementType } from './types';
+import { BotDifficulty, BotProfile, CardColor, GameRules, Phase, RequirementType } from './types';
 
 export const COLORS = [CardColor.RED, CardColor.BLUE, CardColor.GREEN, CardColor.YELLOW];
 
@@ -9,6 +9,69 @@ export const BOT_NAMES = [
 ];
 
 export const DEFAULT_TURN_DURATION = 30; // seconds
+export const ACTION_RESPONSE_TIMEOUT = 8000; // ms a client waits for the host to answer an action
+export const RECONNECT_GRACE_PERIOD = 20000; // ms before a bot takes over a disconnected player's seat
+export const HOST_MIGRATION_RETRY_DELAY = 3000; // ms between attempts to reach a new host
+export const HOST_MIGRATION_ATTEMPTS = 10;
+export const TURN_AWAY_CLOSE_DELAY = 500; // ms a removed client gets to read why before its connection is closed
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  EASY: { difficulty: 'EASY', name: "Easy", usesDiscardPile: false, hitChance: 0.5, mistakeChance: 0.3, defensiveDiscards: false, strategicSkips: false },
+  NORMAL: { difficulty: 'NORMAL', name: "Normal", usesDiscardPile: true, hitChance: 1, mistakeChance: 0, defensiveDiscards: false, strategicSkips: false },
+  HARD: { difficulty: 'HARD', name: "Hard", usesDiscardPile: true, hitChance: 1, mistakeChance: 0, defensiveDiscards: true, strategicSkips: true }
+};
+
+export const MIN_REQUIREMENT_COUNT = 2; // Smallest group a phase may ask for
+
+// Player-facing names and rules for each requirement type
+export const REQUIREMENT_INFO: Record<RequirementType, { label: string; rule: string }> = {
+  [RequirementType.SET]: { label: "Set", rule: "Cards of the same number" },
+  [RequirementType.RUN]: { label: "Run", rule: "Numbers in a row, any colors" },
+  [RequirementType.COLOR]: { label: "Color", rule: "Cards of the same color" },
+  [RequirementType.COLOR_RUN]: { label: "Color Run", rule: "Numbers in a row, all one color" },
+  [RequirementType.EVEN_ODD]: { label: "Even/Odd", rule: "All even numbers or all odd numbers" },
+  [RequirementType.PAIRS]: { label: "Pairs", rule: "Pairs of matching numbers" }
+};
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+// House rule presets, chosen in the lobby
+export const CLASSIC_RULES: GameRules = {
+  id: 'CLASSIC',
+  name: "Classic",
+  description: "10 phases, 10-card hands, 8 wilds",
+  handSize: 10,
+  phaseCount: 10,
+  maxCardValue: 12,
+  copiesPerColor: 2,
+  wildCount: 8,
+  skipCount: 4,
+  allowSkipPickup: false,
+  allowHints: true,
+  tableSize: 4,
+  scoring: { lowCard: 5, highCard: 10, highCardFrom: 10, skip: 15, wild: 25 }
+};
+
+export const QUICK_RULES: GameRules = {
+  ...CLASSIC_RULES,
+  id: 'QUICK',
+  name: "Quick",
+  description: "5 phases, 9-card hands",
+  handSize: 9,
+  phaseCount: 5
+};
+
+export const WILD_HEAVY_RULES: GameRules = {
+  ...CLASSIC_RULES,
+  id: 'WILD_HEAVY',
+  name: "Wild-heavy",
+  description: "16 wilds, Skips can be picked up",
+  wildCount: 16,
+  allowSkipPickup: true
+};
+
+export const RULE_PRESETS: GameRules[] = [CLASSIC_RULES, QUICK_RULES, WILD_HEAVY_RULES];
 
 // Standard Phase 10 inspired phases as a fallback
 export const STANDARD_PHASES: Phase[] = [
@@ -99,6 +162,3 @@ export const STANDARD_PHASES: Phase[] = [
     ]
   }
 ];
-
-export const TOTAL_ROUNDS = 10;
-export const HAND_SIZE = 10;
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Card, PhaseRequirement, RequirementType } from '../types';
+import { CLASSIC_RULES } from '../constants';
+import { analyzePhaseProgress, createDeck, shuffleDeck, validatePhaseHand } from '../utils/gameUtils';
+import { RandomFn, createRng, hashSeed } from '../utils/random';
+
+// Times phase validation and hand analysis on random hands, up to twice the size of a deal.
+// Both run on the UI thread (and for every bot turn), so any single call over budget fails the check.
+//
+//   npm run check:phases
+//   npm run check:phases -- --hands 500 --seed OTHER
+
+interface TimingCase {
+  cards: number;
+  requirements: number;
+  budget: number; // ms for the slowest single call
+}
+
+const CASES: TimingCase[] = [
+  { cards: 11, requirements: 2, budget: 50 },
+  { cards: 11, requirements: 3, budget: 50 },
+  { cards: 11, requirements: 4, budget: 50 },
+  { cards: 20, requirements: 3, budget: 100 },
+  { cards: 20, requirements: 4, budget: 300 }
+];
+
+const readFlag = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const REQUIREMENT_TYPES = Object.values(RequirementType);
+
+const randomRequirement = (random: RandomFn): PhaseRequirement => {
+  const type = REQUIREMENT_TYPES[Math.floor(random() * REQUIREMENT_TYPES.length)];
+  // Pairs come in whole pairs; everything else between 2 and 5 cards
+  const count = type === RequirementType.PAIRS ? 2 * (1 + Math.floor(random() * 3)) : 2 + Math.floor(random() * 4);
+  return { type, count };
+};
+
+// Milliseconds one call takes
+const time = (fn: () => void): number => {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+const args = process.argv.slice(2);
+const hands = Number(readFlag(args, 'hands') || 200);
+const rng = createRng(hashSeed(readFlag(args, 'seed') || 'TIMING'));
+const deck = createDeck(CLASSIC_RULES, 2);
+
+let failed = false;
+CASES.forEach(({ cards, requirements, budget }) => {
+  let slowest = { ms: 0, hand: [] as Card[], requirements: [] as PhaseRequirement[], call: '' };
+  let total = 0;
+  for (let i = 0; i < hands; i++) {
+    const hand = shuffleDeck(deck, rng.next).slice(0, cards);
+    const reqs = Array.from({ length: requirements }, () => randomRequirement(rng.next));
+    const calls: [string, number][] = [
+      ['validate', time(() => validatePhaseHand(hand, reqs, CLASSIC_RULES))],
+      ['analyze', time(() => analyzePhaseProgress(hand, reqs, CLASSIC_RULES))]
+    ];
+    calls.forEach(([call, ms]) => {
+      total += ms;
+      if (ms > slowest.ms) slowest = { ms, hand, requirements: reqs, call };
+    });
+  }
+
+  const over = slowest.ms > budget;
+  failed = failed || over;
+  console.log(`${String(cards).padStart(2)} cards, ${requirements} groups: mean ${(total / (hands * 2)).toFixed(2)} ms  max ${slowest.ms.toFixed(1)} ms (budget ${budget})${over ? '  OVER BUDGET' : ''}`);
+  if (over) {
+    console.log(`  slowest ${slowest.call}: ${slowest.requirements.map(r => `${r.type} ${r.count}`).join(', ')}`);
+    console.log(`  hand: ${slowest.hand.map(c => `${c.displayValue}${c.color[0]}`).join(' ')}`);
+  }
+});
+
+if (failed) {
+  console.error('\nSome calls ran over budget.');
+  process.exit(1);
+}
@@ -0,0 +1,273 @@
+import { readFileSync } from 'fs';
+import { BotDifficulty, GameRules, GameSnapshot, GameState, Phase, PhaseRequirement, Player, RequirementType } from '../types';
+import { BOT_PROFILES, MAX_PLAYERS, MIN_PLAYERS, RULE_PRESETS, STANDARD_PHASES } from '../constants';
+import { applyAction, createGameSnapshot, getStandings } from '../utils/gameEngine';
+import { playBotTurn } from '../utils/botPlayer';
+import { getPhaseIssues } from '../utils/phaseFeasibility';
+import { createFixturePhaseProvider } from '../services/phaseProviders';
+import { proceduralPhaseProvider } from '../services/proceduralPhaseService';
+
+// Headless bot tournament for balancing rules and phase packs.
+// Runs whole games through the same engine and bots as the app, with no React involved.
+//
+//   npm run simulate -- --games 500 --players 4 --rules QUICK --bots HARD,NORMAL
+//   npm run simulate -- --phases my-pack.json
+//   npm run simulate -- --theme Cyberpunk
+//   npm run simulate -- --replay SIM-42
+
+interface SimOptions {
+  games: number;
+  players: number;
+  rules: GameRules;
+  phases: Phase[];
+  bots: BotDifficulty[];
+  seedPrefix: string;
+  maxRounds: number;
+  maxTurnsPerRound: number;
+  outliers: number;
+  replay?: string;
+}
+
+interface GameRecord {
+  seed: string;
+  rounds: number;
+  stalled: boolean;
+  winnerSeat: number; // -1 when stalled
+  finalScores: number[];
+  phaseAttempts: number[];
+  phaseClears: number[];
+}
+
+// --- Options ---
+
+const readFlag = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const REQUIREMENT_TYPES: string[] = Object.values(RequirementType);
+
+const isRequirement = (value: unknown): value is PhaseRequirement => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, count } = value as Record<string, unknown>;
+  return typeof type === 'string' && REQUIREMENT_TYPES.includes(type) && typeof count === 'number' && Number.isInteger(count) && count > 0;
+};
+
+const text = (value: unknown, fallback: string): string => (typeof value === 'string' && value ? value : fallback);
+
+// Accepts either a bare array of phases or { phases: [...] }, the shape a generated pack is saved in
+const loadPhasePack = (path: string): Phase[] => {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  const list: unknown = Array.isArray(raw) ? raw : (raw as { phases?: unknown } | null)?.phases;
+  if (!Array.isArray(list) || list.length === 0) return fail(`${path} does not contain a list of phases.`);
+
+  return list.map((entry: unknown, idx): Phase => {
+    const phase = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const { requirements } = phase;
+    if (!Array.isArray(requirements) || requirements.length === 0 || !requirements.every(isRequirement)) {
+      return fail(`Phase ${idx + 1} in ${path} has invalid requirements.`);
+    }
+    return {
+      id: idx + 1,
+      name: text(phase.name, `Phase ${idx + 1}`),
+      description: text(phase.description, ''),
+      requirements: requirements.map(({ type, count }) => ({ type, count }))
+    };
+  });
+};
+
+// A pack file, an offline themed pack, or the standard phases, trimmed to the rules' phase count
+const resolvePhases = async (args: string[], rules: GameRules): Promise<Phase[]> => {
+  const phasesPath = readFlag(args, 'phases');
+  const theme = readFlag(args, 'theme');
+  const provider = phasesPath ? createFixturePhaseProvider(loadPhasePack(phasesPath), phasesPath)
+    : theme ? proceduralPhaseProvider
+    : createFixturePhaseProvider(STANDARD_PHASES, "Standard");
+  return (await provider.generatePhases(theme || '', rules.phaseCount, rules)).phases;
+};
+
+// A whole-number flag within [min, max], or the fallback when the flag is left out
+const readCount = (args: string[], name: string, fallback: number, min = 1, max = Infinity): number => {
+  const raw = readFlag(args, name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    fail(`--${name} must be a whole number ${max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`}, not ${raw}.`);
+  }
+  return value;
+};
+
+const parseOptions = async (args: string[]): Promise<SimOptions> => {
+  const presetId = (readFlag(args, 'rules') || 'CLASSIC').toUpperCase();
+  const rules = RULE_PRESETS.find(r => r.id === presetId) || fail(`Unknown rules preset: ${presetId}`);
+  const difficulties = Object.keys(BOT_PROFILES);
+  const bots = (readFlag(args, 'bots') || 'NORMAL').toUpperCase().split(',') as BotDifficulty[];
+  if (bots.some(b => !difficulties.includes(b))) fail(`Bots must be a comma list of ${difficulties.join('/')}.`);
+
+  return {
+    games: readCount(args, 'games', 200),
+    players: readCount(args, 'players', rules.tableSize, MIN_PLAYERS, MAX_PLAYERS),
+    rules,
+    phases: await resolvePhases(args, rules),
+    bots,
+    seedPrefix: readFlag(args, 'seed') || 'SIM',
+    maxRounds: readCount(args, 'max-rounds', 100),
+    maxTurnsPerRound: readCount(args, 'max-turns', 1000),
+    outliers: readCount(args, 'outliers', 3),
+    replay: readFlag(args, 'replay')
+  };
+};
+
+// --- Playing ---
+
+const createBots = (opts: SimOptions): Player[] => Array.from({ length: opts.players }, (_, i) => ({
+  id: `bot-${i}`,
+  name: `Seat ${i + 1} (${opts.bots[i % opts.bots.length]})`,
+  isHuman: false,
+  hand: [],
+  melds: [],
+  phaseIndex: 0,
+  hasLaidDownPhase: false,
+  score: 0,
+  botDifficulty: opts.bots[i % opts.bots.length]
+}));
+
+const logRound = (state: GameSnapshot) => {
+  const winner = state.players.find(p => p.id === state.roundWinnerId);
+  console.log(`Round ${state.roundNumber}: ${winner?.name} went out`);
+  state.players.forEach(p => {
+    console.log(`  ${p.name.padEnd(20)} phase ${String(p.phaseIndex + 1).padStart(2)}  score ${p.score}${p.hasLaidDownPhase ? '  (laid down)' : ''}`);
+  });
+};
+
+const playGame = (seed: string, opts: SimOptions, verbose: boolean = false): GameRecord => {
+  const record: GameRecord = {
+    seed,
+    rounds: 0,
+    stalled: false,
+    winnerSeat: -1,
+    finalScores: [],
+    phaseAttempts: opts.phases.map(() => 0),
+    phaseClears: opts.phases.map(() => 0)
+  };
+
+  let state = createGameSnapshot(createBots(opts), opts.phases, seed, opts.rules);
+  let result = applyAction(state, { action: 'START_GAME' });
+
+  while (result.ok === true && result.state.gameState !== GameState.GAME_OVER) {
+    state = result.state;
+    if (record.rounds >= opts.maxRounds) break;
+
+    // Play the round out, remembering which phase each seat was attempting
+    const attempted = state.players.map(p => p.phaseIndex);
+    let turns = 0;
+    while (result.ok === true && result.state.gameState === GameState.PLAYING && turns++ < opts.maxTurnsPerRound) {
+      result = playBotTurn(result.state);
+    }
+    if (result.ok === false || result.state.gameState === GameState.PLAYING) break;
+
+    state = result.state;
+    record.rounds++;
+    state.players.forEach((p, seat) => {
+      record.phaseAttempts[attempted[seat]]++;
+      if (p.hasLaidDownPhase) record.phaseClears[attempted[seat]]++;
+    });
+    if (verbose) logRound(state);
+
+    result = applyAction(state, { action: 'NEXT_ROUND' });
+  }
+
+  if (result.ok === true && result.state.gameState === GameState.GAME_OVER) {
+    state = result.state;
+    record.winnerSeat = state.players.findIndex(p => p.id === getStandings(state)[0].id);
+  } else {
+    record.stalled = true;
+    if (verbose && result.ok === false) console.log(`Stalled: ${result.rejection.message}`);
+  }
+  record.finalScores = state.players.map(p => p.score);
+  return record;
+};
+
+// --- Reporting ---
+
+const mean = (values: number[]): number => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const percentile = (sorted: number[], p: number): number => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] || 0;
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const describe = (values: number[]): string => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return `mean ${mean(sorted).toFixed(1)}  min ${sorted[0] || 0}  p10 ${percentile(sorted, 0.1)}  median ${percentile(sorted, 0.5)}  p90 ${percentile(sorted, 0.9)}  max ${sorted[sorted.length - 1] || 0}`;
+};
+
+const replayFlags = (opts: SimOptions): string => {
+  const flags = [`--rules ${opts.rules.id}`, `--players ${opts.players}`, `--bots ${opts.bots.join(',')}`];
+  const phasesPath = readFlag(process.argv, 'phases');
+  const theme = readFlag(process.argv, 'theme');
+  if (phasesPath) flags.push(`--phases ${phasesPath}`);
+  else if (theme) flags.push(`--theme "${theme}"`);
+  return flags.join(' ');
+};
+
+const report = (records: GameRecord[], opts: SimOptions) => {
+  const finished = records.filter(r => !r.stalled);
+  console.log(`\n${records.length} games · ${opts.players} players · ${opts.rules.name} rules · ${opts.phases.length} phases · bots ${opts.bots.join(',')}`);
+  console.log(`Finished ${finished.length}, stalled ${records.length - finished.length}`);
+  console.log(`Rounds per game: ${describe(finished.map(r => r.rounds))}`);
+
+  console.log('\nPhase                                      attempts  cleared  rounds/phase');
+  opts.phases.forEach((phase, i) => {
+    const attempts = records.reduce((sum, r) => sum + r.phaseAttempts[i], 0);
+    const clears = records.reduce((sum, r) => sum + r.phaseClears[i], 0);
+    const roundsPerPhase = clears ? (attempts / clears).toFixed(2) : '-';
+    console.log(`${`${i + 1}. ${phase.description || phase.name}`.slice(0, 42).padEnd(42)} ${String(attempts).padStart(8)}  ${formatPercent(attempts ? clears / attempts : 0).padStart(7)}  ${roundsPerPhase.padStart(12)}`);
+  });
+
+  console.log(`\nFinal scores (all seats): ${describe(finished.flatMap(r => r.finalScores))}`);
+  console.log(`Winning scores:           ${describe(finished.map(r => r.finalScores[r.winnerSeat]))}`);
+
+  // Seat 1 always leads off each round, so any edge shows up as seat 1 winning more than its share
+  console.log(`\nWin rate by seat (fair share ${formatPercent(1 / opts.players)}):`);
+  for (let seat = 0; seat < opts.players; seat++) {
+    const wins = finished.filter(r => r.winnerSeat === seat).length;
+    console.log(`  Seat ${seat + 1}${seat === 0 ? ' (starts)' : ''}: ${formatPercent(finished.length ? wins / finished.length : 0)}`);
+  }
+
+  const byLength = [...finished].sort((a, b) => a.rounds - b.rounds);
+  const outliers = [
+    ...byLength.slice(0, opts.outliers).map(r => ({ label: 'shortest', record: r })),
+    ...byLength.slice(-opts.outliers).reverse().map(r => ({ label: 'longest ', record: r })),
+    ...records.filter(r => r.stalled).slice(0, opts.outliers).map(r => ({ label: 'stalled ', record: r }))
+  ];
+  const flags = replayFlags(opts);
+  console.log('\nOutliers (replay with the command shown):');
+  outliers.forEach(({ label, record }) => {
+    console.log(`  ${label}  ${String(record.rounds).padStart(3)} rounds  npm run simulate -- --replay ${record.seed} ${flags}`);
+  });
+};
+
+// --- Main ---
+
+const opts = await parseOptions(process.argv.slice(2));
+
+// Infeasible phases still run, but nobody will ever clear them
+opts.phases.forEach(phase => {
+  getPhaseIssues(phase, opts.rules).forEach(issue => console.warn(`Warning: ${phase.name} ${issue}`));
+});
+
+if (opts.replay) {
+  const record = playGame(opts.replay, opts, true);
+  console.log(record.stalled ? '\nGame did not finish.' : `\nSeat ${record.winnerSeat + 1} wins after ${record.rounds} rounds.`);
+} else {
+  const records: GameRecord[] = [];
+  for (let i = 0; i < opts.games; i++) {
+    records.push(playGame(`${opts.seedPrefix}-${i}`, opts));
+  }
+  report(records, opts);
+}
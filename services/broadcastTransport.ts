@@ -0,0 +1,91 @@
+import { Transport } from "../types";
+import { LocalConnection, createLocalConnection, randomLinkId } from "./localConnection";
+
+// Tabs of the same browser talking over a BroadcastChannel. No signalling server, so
+// several players can share one machine, and every message is visible in devtools.
+
+const CHANNEL_NAME = 'ipr-transport';
+const CONNECT_TIMEOUT = 5000; // ms to wait for a host to accept before reporting it unavailable
+
+interface Packet {
+  kind: 'CONNECT' | 'ACCEPT' | 'DATA' | 'CLOSE';
+  from: string;
+  to: string;
+  link: string; // One id per connection, so a tab can hold several
+  data?: unknown;
+}
+
+export const broadcastTransport: Transport = {
+  id: 'BROADCAST',
+  name: "This Device",
+  description: "Tabs in this browser, no server needed",
+  isAvailable: () => typeof BroadcastChannel !== 'undefined',
+  open: (endpointId, handlers) => {
+    const id = endpointId || `tab-${randomLinkId()}`;
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    const links = new Map<string, LocalConnection>();
+    const post = (packet: Packet) => channel.postMessage(packet);
+
+    const track = (link: string, remoteId: string): LocalConnection => {
+      const conn = createLocalConnection(
+        message => post({ kind: 'DATA', from: id, to: remoteId, link, data: message }),
+        () => {
+          post({ kind: 'CLOSE', from: id, to: remoteId, link });
+          links.delete(link);
+        }
+      );
+      links.set(link, conn);
+      return conn;
+    };
+
+    channel.onmessage = (event: MessageEvent<Packet>) => {
+      const packet = event.data;
+      if (!packet || packet.to !== id) return;
+      switch (packet.kind) {
+        case 'CONNECT': {
+          if (!endpointId || !handlers.onConnection) return; // Only hosts take connections
+          const conn = track(packet.link, packet.from);
+          post({ kind: 'ACCEPT', from: id, to: packet.from, link: packet.link });
+          conn.markOpen();
+          handlers.onConnection(conn);
+          break;
+        }
+        case 'ACCEPT':
+          links.get(packet.link)?.markOpen();
+          break;
+        case 'DATA':
+          links.get(packet.link)?.deliver(packet.data);
+          break;
+        case 'CLOSE':
+          links.get(packet.link)?.markClosed();
+          links.delete(packet.link);
+          break;
+      }
+    };
+
+    // A closing tab doesn't drop its links by itself, so say goodbye on the way out
+    const closeAll = () => links.forEach(conn => conn.close());
+    window.addEventListener('pagehide', closeAll);
+    setTimeout(() => handlers.onReady?.(), 0);
+
+    return {
+      connect: hostId => {
+        const link = `${id}:${randomLinkId()}`;
+        const conn = track(link, hostId);
+        post({ kind: 'CONNECT', from: id, to: hostId, link });
+        setTimeout(() => {
+          if (conn.open || !links.has(link)) return;
+          links.delete(link);
+          conn.markClosed();
+          handlers.onError?.('peer-unavailable');
+        }, CONNECT_TIMEOUT);
+        return conn;
+      },
+      close: () => {
+        closeAll();
+        window.removeEventListener('pagehide', closeAll);
+        channel.close();
+      }
+    };
+  }
+};
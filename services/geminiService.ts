@@ -1,70 +1,112 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Phase, RequirementType } from "../types";
+import { GameRules, Phase, PhasePackReport, PhaseProvider, RequirementType } from "../types";
+import { CLASSIC_RULES, COLORS } from "../constants";
+import { completePhasePack, phaseCardLimit, repairPhases } from "../utils/phaseFeasibility";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so importing this module never needs a key
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
 
-export const generatePhases = async (theme: string, count: number = 10): Promise<Phase[]> => {
-  // Fallback if no API key
-  if (!process.env.API_KEY) {
-    console.warn("No API Key found, returning standard phases.");
-    return []; // Caller handles empty array by using standard
-  }
-
-  try {
-    const model = "gemini-2.5-flash";
-    const prompt = `Create a card game progression of ${count} phases with a "${theme}" theme. 
+// Asks Gemini for phases, telling it what the deck can actually support
+const requestPhases = async (theme: string, count: number, rules: GameRules, existing: Phase[] = []): Promise<Phase[]> => {
+  const model = "gemini-2.5-flash";
+  const continuing = existing.length > 0
+    ? `\n    These phases already exist, so make new ones that fit between or after them: ${existing.map(p => p.description).join("; ")}.`
+    : "";
+  const prompt = `Create a card game progression of ${count} phases with a "${theme}" theme. 
     Mechanics:
     - A "SET" is N cards of the same number value.
     - A "RUN" is N cards in sequential numerical order.
     - A "COLOR" is N cards of the same color.
+    - A "COLOR_RUN" is N cards in sequential numerical order, all the same color.
+    - An "EVEN_ODD" is N cards that are all even numbers or all odd numbers.
+    - A "PAIRS" is N cards made of pairs of matching numbers; N must be even (3 pairs is N = 6).
+    Deck: numbers 1-${rules.maxCardValue} in ${COLORS.length} colors, ${rules.copiesPerColor} of each, plus ${rules.wildCount} wild cards.
+    A RUN or COLOR_RUN can be at most ${rules.maxCardValue} cards. Every group needs at least 2 cards.
+    All groups in one phase must total at most ${phaseCardLimit(rules)} cards.${continuing}
     Make them progressively harder. Return pure JSON data.`;
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "Creative name of the phase" },
-              description: { type: Type.STRING, description: "Short description like '2 Sets of 3'" },
-              requirements: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    type: { type: Type.STRING, enum: ["SET", "RUN", "COLOR"] },
-                    count: { type: Type.INTEGER, description: "Number of cards required for this part" }
-                  },
-                  required: ["type", "count"]
-                }
+  const response = await getClient().models.generateContent({
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING, description: "Creative name of the phase" },
+            description: { type: Type.STRING, description: "Short description like '2 Sets of 3'" },
+            requirements: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  type: { type: Type.STRING, enum: Object.values(RequirementType) },
+                  count: { type: Type.INTEGER, description: "Number of cards required for this part" }
+                },
+                required: ["type", "count"]
               }
-            },
-            required: ["name", "description", "requirements"]
-          }
+            }
+          },
+          required: ["name", "description", "requirements"]
         }
       }
-    });
+    }
+  });
 
-    if (response.text) {
-      const rawPhases = JSON.parse(response.text);
-      // Map to our internal Phase interface adding IDs
-      return rawPhases.map((p: any, index: number) => ({
-        id: index + 1,
-        name: p.name,
-        description: p.description,
-        requirements: p.requirements.map((r: any) => ({
-          type: r.type as RequirementType,
-          count: r.count
-        }))
-      }));
+  if (!response.text) return [];
+  const rawPhases = JSON.parse(response.text);
+  if (!Array.isArray(rawPhases)) return [];
+  // Map to our internal Phase interface adding IDs
+  return rawPhases.map((p: any, index: number) => ({
+    id: index + 1,
+    name: p.name,
+    description: p.description,
+    requirements: (p.requirements || []).map((r: any) => ({
+      type: r.type as RequirementType,
+      count: r.count
+    }))
+  }));
+};
+
+// Returns an empty pack when generation fails outright; the caller falls back to standard phases.
+// Otherwise the pack is repaired to fit the deck, with every change listed in `adjustments`.
+export const generatePhases = async (theme: string, count: number = 10, rules: GameRules = CLASSIC_RULES): Promise<PhasePackReport> => {
+  // Fallback if no API key
+  if (!process.env.API_KEY) {
+    console.warn("No API Key found, returning standard phases.");
+    return { phases: [], adjustments: [] }; // Caller handles empty pack by using standard
+  }
+
+  try {
+    let report = repairPhases(await requestPhases(theme, count, rules), rules);
+
+    // Re-request once for anything missing or thrown away before padding with standard phases
+    const missing = count - report.phases.length;
+    if (missing > 0 && report.phases.length > 0) {
+      const extra = repairPhases(await requestPhases(theme, missing, rules, report.phases), rules);
+      report = {
+        phases: [...report.phases, ...extra.phases],
+        adjustments: [...report.adjustments, `Asked Gemini again for ${missing} more phase${missing === 1 ? '' : 's'}`, ...extra.adjustments]
+      };
     }
-    return [];
+
+    if (report.phases.length === 0) return report;
+    return completePhasePack(report, count);
   } catch (error) {
     console.error("Failed to generate phases", error);
-    return [];
+    return { phases: [], adjustments: [] };
   }
-};
\ No newline at end of file
+};
+
+export const geminiPhaseProvider: PhaseProvider = {
+  id: 'GEMINI',
+  name: "Gemini AI",
+  isAvailable: () => !!process.env.API_KEY,
+  generatePhases
+};
@@ -0,0 +1,60 @@
+import { NetworkMessage, TransportConnection } from "../types";
+
+// Connection bookkeeping for transports that deliver messages themselves (BroadcastChannel,
+// in-memory). The transport calls the mark/deliver hooks; the app only sees a TransportConnection.
+
+export interface LocalConnection extends TransportConnection {
+  markOpen: () => void;
+  deliver: (data: unknown) => void;
+  markClosed: () => void;
+}
+
+type LinkState = 'CONNECTING' | 'OPEN' | 'CLOSED';
+
+// `transmit` carries outgoing messages to the other side; `hangUp` tells it we closed
+export const createLocalConnection = (transmit: (message: NetworkMessage) => void, hangUp: () => void): LocalConnection => {
+  let state: LinkState = 'CONNECTING';
+  const openHandlers: (() => void)[] = [];
+  const messageHandlers: ((data: unknown) => void)[] = [];
+  const closeHandlers: (() => void)[] = [];
+
+  const conn: LocalConnection = {
+    get open() {
+      return state === 'OPEN';
+    },
+    onOpen: handler => {
+      if (state === 'OPEN') handler();
+      else openHandlers.push(handler);
+    },
+    send: message => {
+      if (state === 'OPEN') transmit(message);
+    },
+    onMessage: handler => {
+      messageHandlers.push(handler);
+    },
+    onClose: handler => {
+      closeHandlers.push(handler);
+    },
+    close: () => {
+      if (state === 'CLOSED') return;
+      hangUp();
+      conn.markClosed();
+    },
+    markOpen: () => {
+      if (state !== 'CONNECTING') return;
+      state = 'OPEN';
+      openHandlers.forEach(h => h());
+    },
+    deliver: data => {
+      if (state === 'OPEN') messageHandlers.forEach(h => h(data));
+    },
+    markClosed: () => {
+      if (state === 'CLOSED') return;
+      state = 'CLOSED';
+      closeHandlers.forEach(h => h());
+    }
+  };
+  return conn;
+};
+
+export const randomLinkId = (): string => Math.random().toString(36).substring(2, 10);
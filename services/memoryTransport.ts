@@ -0,0 +1,72 @@
+import { Transport, TransportEndpointHandlers } from "../types";
+import { LocalConnection, createLocalConnection } from "./localConnection";
+
+// In-process transport for automated multi-client tests. Endpoints opened on the same
+// transport reach each other directly; messages are copied and delivered on a later tick,
+// like a real link, so tests see the same ordering and serialisation the app does.
+
+const later = (fn: () => void) => setTimeout(fn, 0);
+
+// Drops undefined fields and shared references the way a wire format would
+const copy = <T,>(data: T): T => JSON.parse(JSON.stringify(data));
+
+export const createMemoryTransport = (): Transport => {
+  const hosts = new Map<string, { handlers: TransportEndpointHandlers; links: Set<LocalConnection> }>();
+
+  return {
+    id: 'MEMORY',
+    name: "In Memory",
+    description: "Same page only, for tests",
+    isAvailable: () => true,
+    open: (endpointId, handlers) => {
+      const links = new Set<LocalConnection>(); // Both the ones we opened and the ones we accepted
+      if (endpointId) hosts.set(endpointId, { handlers, links });
+      later(() => handlers.onReady?.());
+
+      return {
+        connect: hostId => {
+          // Each side's messages and hang-ups land on the other side a tick later
+          let remote: LocalConnection | null = null;
+          let hungUp = false;
+          const local = createLocalConnection(
+            message => {
+              const data = copy(message);
+              later(() => remote?.deliver(data));
+            },
+            () => {
+              hungUp = true;
+              later(() => remote?.markClosed());
+            }
+          );
+          links.add(local);
+
+          later(() => {
+            if (hungUp) return; // Gave up before the host answered
+            const host = hosts.get(hostId);
+            if (!host?.handlers.onConnection) {
+              local.markClosed();
+              handlers.onError?.('peer-unavailable');
+              return;
+            }
+            remote = createLocalConnection(
+              message => {
+                const data = copy(message);
+                later(() => local.deliver(data));
+              },
+              () => later(() => local.markClosed())
+            );
+            host.links.add(remote);
+            remote.markOpen();
+            host.handlers.onConnection(remote);
+            local.markOpen();
+          });
+          return local;
+        },
+        close: () => {
+          links.forEach(conn => conn.close());
+          if (endpointId && hosts.get(endpointId)?.handlers === handlers) hosts.delete(endpointId);
+        }
+      };
+    }
+  };
+};
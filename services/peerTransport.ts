@@ -0,0 +1,46 @@
+import { Transport, TransportConnection } from "../types";
+
+// PeerJS over WebRTC, loaded from the CDN. Needs the public signalling server to find peers.
+
+const getPeer = () => (window as any).Peer;
+
+const wrapConnection = (conn: any): TransportConnection => ({
+  get open() {
+    return conn.open;
+  },
+  onOpen: handler => {
+    if (conn.open) handler();
+    else conn.on('open', handler);
+  },
+  send: message => conn.send(message),
+  onMessage: handler => conn.on('data', handler),
+  onClose: handler => conn.on('close', handler),
+  close: () => conn.close()
+});
+
+export const peerTransport: Transport = {
+  id: 'PEERJS',
+  name: "Online",
+  description: "P2P via PeerJS",
+  isAvailable: () => typeof window !== 'undefined' && !!getPeer(),
+  open: (endpointId, handlers) => {
+    const Peer = getPeer();
+    const peer = endpointId ? new Peer(endpointId) : new Peer();
+
+    peer.on('open', () => handlers.onReady?.());
+    peer.on('connection', (conn: any) => handlers.onConnection?.(wrapConnection(conn)));
+    peer.on('error', (err: any) => {
+      console.error("Peer error:", err);
+      handlers.onError?.(err.type);
+    });
+
+    return {
+      // PeerJS returns nothing once the peer has been destroyed
+      connect: hostId => {
+        const conn = peer.connect(hostId);
+        return conn ? wrapConnection(conn) : null;
+      },
+      close: () => peer.destroy()
+    };
+  }
+};
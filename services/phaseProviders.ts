@@ -0,0 +1,21 @@
+import { GameRules, Phase, PhasePackReport, PhaseProvider } from "../types";
+import { pickPhases } from "../utils/gameUtils";
+import { geminiPhaseProvider } from "./geminiService";
+import { proceduralPhaseProvider } from "./proceduralPhaseService";
+
+// Providers in order of preference. Themed games try each available one until a list comes back,
+// so the offline generator covers a missing API key or a failed request.
+export const PHASE_PROVIDERS: PhaseProvider[] = [geminiPhaseProvider, proceduralPhaseProvider];
+
+export const getPhaseProviders = (): PhaseProvider[] => PHASE_PROVIDERS.filter(p => p.isAvailable());
+
+// Serves a fixed phase list, for tests, the simulator and hand-written packs
+export const createFixturePhaseProvider = (phases: Phase[], name: string = "Fixture"): PhaseProvider => ({
+  id: 'FIXTURE',
+  name,
+  isAvailable: () => true,
+  generatePhases: async (_theme: string, count: number, _rules: GameRules): Promise<PhasePackReport> => ({
+    phases: pickPhases(phases, count),
+    adjustments: []
+  })
+});
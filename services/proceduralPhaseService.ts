@@ -0,0 +1,111 @@
+import { GameRules, Phase, PhasePackReport, PhaseProvider, PhaseRequirement, RequirementType } from "../types";
+import { MIN_REQUIREMENT_COUNT } from "../constants";
+import { describeRequirements, phaseCardLimit, phaseDifficulty, requirementLimit } from "../utils/phaseFeasibility";
+import { RandomFn, createRng, hashSeed, shuffle } from "../utils/random";
+
+// Offline phase generator. The same theme and rules always give the same phases,
+// so themed games work without an API key and can be replayed from a seed.
+
+const MAX_GENERATED_SET = 5; // Bigger sets are legal with wilds but miserable to collect
+const MAX_GENERATED_COLOR_RUN = 6;
+const MAX_REQUIREMENTS = 3;
+
+const OPENING_WORDS = ["Awakening", "First Steps", "Spark", "Arrival", "Prologue", "Initiation"];
+const MIDDLE_WORDS = ["Crossroads", "Trial", "Gauntlet", "Ascent", "Labyrinth", "Storm", "Descent", "Rift"];
+const CLOSING_WORDS = ["Summit", "Apex", "Reckoning", "Finale", "Legend", "Crown"];
+
+const TYPE_ORDER = Object.values(RequirementType);
+
+const titleCase = (text: string): string => text.trim().split(/\s+/).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+
+// Every group size the generator is willing to ask for under these rules
+const countRange = (type: RequirementType, rules: GameRules): number[] => {
+  const limit = requirementLimit(type, rules);
+  const range = (min: number, max: number, step: number = 1) => (
+    Array.from({ length: Math.max(0, Math.floor((Math.min(max, limit) - min) / step) + 1) }, (_, i) => min + i * step)
+  );
+  switch (type) {
+    case RequirementType.SET:
+      return range(MIN_REQUIREMENT_COUNT + 1, MAX_GENERATED_SET);
+    case RequirementType.COLOR_RUN:
+      return range(3, MAX_GENERATED_COLOR_RUN);
+    case RequirementType.PAIRS:
+      return range(4, limit, 2);
+    default:
+      return range(4, limit);
+  }
+};
+
+// All requirement combinations that fit a hand, listed once each (types in a fixed order, counts descending)
+const candidatePhases = (rules: GameRules): PhaseRequirement[][] => {
+  const options = TYPE_ORDER.flatMap(type => countRange(type, rules).reverse().map(count => ({ type, count })));
+  // Leave the drawn card spare, as the standard phases do
+  const limit = phaseCardLimit(rules) - 1;
+  const results: PhaseRequirement[][] = [];
+
+  const extend = (current: PhaseRequirement[], from: number, total: number) => {
+    // Single groups shorter than 6 are too easy to be a phase on their own
+    if (current.length > 0 && total >= 6) results.push(current);
+    if (current.length === MAX_REQUIREMENTS) return;
+    for (let i = from; i < options.length; i++) {
+      if (total + options[i].count <= limit) extend([...current, options[i]], i, total + options[i].count);
+    }
+  };
+  extend([], 0, 0);
+  return results;
+};
+
+const pickWord = (words: string[], used: Set<string>, random: RandomFn): string => {
+  const fresh = words.filter(w => !used.has(w));
+  const word = shuffle(fresh.length > 0 ? fresh : words, random)[0];
+  used.add(word);
+  return word;
+};
+
+export const generateProceduralPhases = (theme: string, count: number, rules: GameRules): Phase[] => {
+  const random = createRng(hashSeed(`${theme.trim().toLowerCase()}:${count}:${rules.id}`)).next;
+  const themeName = titleCase(theme) || "Classic";
+  // Each theme leans towards one kind of group
+  const favored = TYPE_ORDER[hashSeed(theme.trim().toLowerCase()) % TYPE_ORDER.length];
+
+  const candidates = candidatePhases(rules).map(requirements => ({ requirements, difficulty: phaseDifficulty({ requirements }) }));
+  const easiest = Math.max(6.5, Math.min(...candidates.map(c => c.difficulty)));
+  const hardest = Math.min(10.5, Math.max(...candidates.map(c => c.difficulty)));
+  const usedShapes = new Set<string>();
+  const usedWords = new Set<string>();
+
+  const picks = Array.from({ length: count }, (_, i) => {
+    const target = count === 1 ? hardest : easiest + ((hardest - easiest) * i) / (count - 1);
+    const unused = candidates.filter(c => !usedShapes.has(JSON.stringify(c.requirements)));
+    const pool = (unused.length > 0 ? unused : candidates)
+      .sort((a, b) => Math.abs(a.difficulty - target) - Math.abs(b.difficulty - target))
+      .slice(0, 6);
+    const themed = pool.filter(c => c.requirements.some(r => r.type === favored));
+    const choice = shuffle(themed.length > 0 && random() < 0.6 ? themed : pool, random)[0];
+    usedShapes.add(JSON.stringify(choice.requirements));
+    return { ...choice, index: i };
+  });
+
+  // Picks near the target can dip slightly, so settle the order before naming
+  return picks
+    .sort((a, b) => a.difficulty - b.difficulty || a.index - b.index)
+    .map(({ requirements }, i) => {
+      const words = i === 0 ? OPENING_WORDS : i === count - 1 ? CLOSING_WORDS : MIDDLE_WORDS;
+      return {
+        id: i + 1,
+        name: `${themeName} ${pickWord(words, usedWords, random)}`,
+        description: describeRequirements(requirements),
+        requirements
+      };
+    });
+};
+
+export const proceduralPhaseProvider: PhaseProvider = {
+  id: 'PROCEDURAL',
+  name: "Offline Generator",
+  isAvailable: () => true,
+  generatePhases: async (theme: string, count: number, rules: GameRules): Promise<PhasePackReport> => ({
+    phases: generateProceduralPhases(theme, count, rules),
+    adjustments: []
+  })
+};
@@ -0,0 +1,60 @@
+// Remembers which seat this tab holds in each room, so a refresh or dropped
+// connection can rejoin the same seat instead of orphaning it. Kept per tab, so
+// two tabs in one browser join as two players rather than fighting over one seat.
+
+export interface PlayerSession {
+  roomCode: string;
+  playerId: string;
+  token: string; // Proves to the host that a rejoining client owns the seat
+  name: string;
+  hostGeneration?: number; // Which successor host the room is on, if the original host left
+  spectator?: boolean; // Joined to watch rather than play
+}
+
+const SESSION_KEY = 'ipr-session';
+
+const randomToken = (): string => Array.from({ length: 4 }, () => Math.random().toString(36).substring(2, 10)).join('');
+
+const writeSession = (session: PlayerSession) => {
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // Without storage the seat just can't be reclaimed after a refresh
+  }
+};
+
+const readSession = (): PlayerSession | null => {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null; // Storage disabled or corrupted; fall back to a fresh seat
+  }
+};
+
+// The last room this tab joined, for prefilling the lobby
+export const getLastSession = (): PlayerSession | null => readSession();
+
+// Reuses the stored seat for this room, or starts a new one
+export const getSessionForRoom = (roomCode: string, name: string): PlayerSession => {
+  const stored = readSession();
+  const session = stored && stored.roomCode === roomCode
+    ? { ...stored, name }
+    : { roomCode, playerId: `p-${Date.now()}`, token: randomToken(), name };
+  writeSession(session);
+  return session;
+};
+
+// A spectator given a seat rejoins as that seat from now on
+export const setSessionSeat = (session: PlayerSession, playerId: string): PlayerSession => {
+  const next = { ...session, playerId, spectator: false };
+  writeSession(next);
+  return next;
+};
+
+// Keeps a rejoin pointed at the room's current host after a migration
+export const setSessionHostGeneration = (session: PlayerSession, hostGeneration: number): PlayerSession => {
+  const next = { ...session, hostGeneration };
+  writeSession(next);
+  return next;
+};
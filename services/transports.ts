@@ -0,0 +1,11 @@
+import { Transport, TransportId } from "../types";
+import { peerTransport } from "./peerTransport";
+import { broadcastTransport } from "./broadcastTransport";
+
+// Transports offered in the lobby, in order of preference. The in-memory transport is
+// left out on purpose: it only links endpoints inside one page, which is for tests.
+export const TRANSPORTS: Transport[] = [peerTransport, broadcastTransport];
+
+export const getTransports = (): Transport[] => TRANSPORTS.filter(t => t.isAvailable());
+
+export const getTransport = (id: TransportId): Transport | undefined => TRANSPORTS.find(t => t.id === id);
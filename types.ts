@@ -24,7 +24,10 @@ export interface Card {
 export enum RequirementType {
   SET = 'SET', // n cards of same value
   RUN = 'RUN', // n cards in sequence
-  COLOR = 'COLOR' // n cards of same color
+  COLOR = 'COLOR', // n cards of same color
+  COLOR_RUN = 'COLOR_RUN', // n cards in sequence, all one color
+  EVEN_ODD = 'EVEN_ODD', // n cards, all even or all odd
+  PAIRS = 'PAIRS' // n cards made of pairs (n/2 pairs)
 }
 
 export interface PhaseRequirement {
@@ -39,11 +42,94 @@ export interface Phase {
   requirements: PhaseRequirement[];
 }
 
+// Generated phases after feasibility repair, with a note for every change made
+export interface PhasePackReport {
+  phases: Phase[];
+  adjustments: string[];
+}
+
+// Source of themed phase lists for a new game
+export interface PhaseProvider {
+  id: string;
+  name: string;
+  isAvailable: () => boolean;
+  generatePhases: (theme: string, count: number, rules: GameRules) => Promise<PhasePackReport>;
+}
+
+// What a wild card stands for inside a group. Both fields are unset when any value would do.
+export interface WildAssignment {
+  cardId: string;
+  value?: number; // SET and RUN
+  color?: CardColor; // COLOR
+}
+
+export interface PhaseGroup {
+  requirement: PhaseRequirement;
+  cards: Card[]; // Runs are in sequence order
+  wilds: WildAssignment[];
+}
+
+// Why a selection doesn't make the phase. requirementIndex is null for problems with the selection as a whole.
+export interface MeldIssue {
+  requirementIndex: number | null;
+  message: string;
+  cardIds: string[]; // Selected cards the issue is about
+}
+
+export interface PhaseValidation {
+  valid: boolean;
+  groups?: PhaseGroup[]; // One per requirement, in requirement order
+  issues?: MeldIssue[]; // Only when invalid
+}
+
 export interface Meld {
   id: string;
-  cards: Card[];
+  cards: Card[]; // Runs are kept in sequence order
   type: RequirementType;
   ownerId: string;
+  wilds: WildAssignment[]; // What each wild in the meld stands for
+}
+
+// House Rules
+
+export type RulesPresetId = 'CLASSIC' | 'QUICK' | 'WILD_HEAVY';
+
+export interface ScoringRules {
+  lowCard: number; // Number cards below highCardFrom
+  highCard: number;
+  highCardFrom: number;
+  skip: number;
+  wild: number;
+}
+
+export interface GameRules {
+  id: RulesPresetId;
+  name: string;
+  description: string;
+  handSize: number;
+  phaseCount: number; // How many phases make up a game
+  maxCardValue: number; // Number cards run 1..maxCardValue
+  copiesPerColor: number; // Copies of each number in each colour
+  wildCount: number;
+  skipCount: number;
+  allowSkipPickup: boolean;
+  allowHints: boolean; // Players may ask the board to find their phase
+  tableSize: number; // Empty seats are filled with bots
+  scoring: ScoringRules;
+}
+
+// Bots
+
+export type BotDifficulty = 'EASY' | 'NORMAL' | 'HARD';
+
+export interface BotProfile {
+  difficulty: BotDifficulty;
+  name: string;
+  usesDiscardPile: boolean;
+  hitChance: number; // Chance per turn that the bot hits at all
+  mistakeChance: number; // Chance of throwing away a random card instead of the best one
+  defensiveDiscards: boolean; // Avoid discarding what the next player is collecting
+  strategicSkips: boolean; // Hold Skips until they hurt the next player most
 }
 
 export interface Player {
@@ -56,6 +142,10 @@ export interface Player {
   hasLaidDownPhase: boolean; // For the current round
   score: number;
   isSkipped?: boolean;
+  botDifficulty?: BotDifficulty; // Bots only
+  handCount?: number; // Set when the hand has been redacted for another player's view
+  isDisconnected?: boolean; // Remote player whose connection dropped mid-game
+  botStandIn?: boolean; // A bot plays this seat until its player rejoins
 }
 
 export enum GameState {
@@ -72,9 +162,34 @@ export enum TurnPhase {
   DISCARD = 'DISCARD'
 }
 
+// How a player's own hand is laid out. Purely local, never sent to the host.
+export type HandSortMode = 'COLOR' | 'VALUE' | 'PHASE';
+
 // Multiplayer Types
 
-export type NetworkActionType = 'DRAW' | 'DISCARD' | 'MELD' | 'HIT' | 'REORDER' | 'START_GAME';
+export interface LobbySeat {
+  playerId: string;
+  name: string;
+  isHost: boolean;
+  ready: boolean; // The host is always ready
+}
+
+// Chosen by the host, shown to everyone before the start
+export interface LobbySettings {
+  rules: GameRules;
+  turnDuration: number; // Seconds, 0 for no timer
+  theme: string; // Empty for the standard phases
+  maxPlayers: number; // Human seats, host included
+  botCount: number;
+}
+
+export interface LobbyState {
+  seats: LobbySeat[]; // In table order
+  spectators: { playerId: string; name: string }[];
+  settings: LobbySettings;
+}
+
+export type NetworkActionType = 'DRAW' | 'DISCARD' | 'MELD' | 'HIT' | 'START_GAME' | 'NEXT_ROUND';
 
 export interface NetworkActionPayload {
   action: NetworkActionType;
@@ -82,13 +197,172 @@ export interface NetworkActionPayload {
   cardId?: string; // For Discard / Hit
   cardIds?: string[]; // For Meld
   meldId?: string; // For Hit
-  fromIndex?: number; // For Reorder
-  toIndex?: number; // For Reorder
   fromDiscard?: boolean; // For Draw
 }
 
-export interface NetworkMessage {
-  type: 'STATE_UPDATE' | 'ACTION' | 'PLAYER_JOINED';
-  payload: any;
-  senderId?: string;
-}
\ No newline at end of file
+// Engine Types
+
+export interface DiscardPickup {
+  playerId: string;
+  card: Card;
+}
+
+// Everything needed to reproduce a game; plain data so it can be sent over the wire.
+export interface GameSnapshot {
+  players: Player[];
+  deck: Card[];
+  discardPile: Card[];
+  currentPlayerIndex: number;
+  turnPhase: TurnPhase;
+  gameState: GameState;
+  phases: Phase[];
+  roundWinnerId: string | null;
+  roundNumber: number;
+  rules: GameRules;
+  discardPickups: DiscardPickup[]; // Public record of who took what from the discard pile this round
+  seed: string; // Each round's deal is derived from seed + roundNumber
+  rngState: number; // Running PRNG state for mid-round reshuffles
+  finishedPlayerIds: string[]; // Players who have completed the final phase; the game ends after that round
+}
+
+export type GameEvent =
+  | { type: 'ROUND_STARTED' }
+  | { type: 'DECK_RESHUFFLED' }
+  | { type: 'PHASE_COMPLETED'; playerId: string }
+  | { type: 'CARD_HIT'; playerId: string; meldId: string }
+  | { type: 'PLAYER_SKIPPED'; playerId: string }
+  | { type: 'ROUND_OVER'; winnerId: string }
+  | { type: 'GAME_OVER' };
+
+export type ActionRejectionCode =
+  | 'INVALID_ACTION'
+  | 'WRONG_GAME_STATE'
+  | 'UNKNOWN_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'WRONG_TURN_PHASE'
+  | 'CARD_NOT_IN_HAND'
+  | 'SKIP_PICKUP'
+  | 'DECK_EXHAUSTED'
+  | 'PHASE_ALREADY_DONE'
+  | 'PHASE_NOT_DONE'
+  | 'INVALID_MELD'
+  | 'MELD_NOT_FOUND'
+  | 'CARD_DOES_NOT_FIT'
+  | 'MALFORMED_MESSAGE'
+  | 'NOT_YOUR_SEAT';
+
+export interface ActionRejection {
+  code: ActionRejectionCode;
+  message: string;
+  issues?: MeldIssue[]; // For INVALID_MELD
+}
+
+export type ActionResult =
+  | { ok: true; state: GameSnapshot; events: GameEvent[] }
+  | { ok: false; rejection: ActionRejection };
+
+// Network Types
+
+export interface PlayerJoinedPayload {
+  name: string;
+  playerId: string; // The seat this connection is bound to from now on
+  sessionToken: string; // Lets the same client reclaim the seat after reconnecting
+  spectator?: boolean; // Watch without taking a seat
+}
+
+// One seat's fields that changed since the last view sent; `id` picks the seat
+export type PlayerChange = Partial<Player> & { id: string };
+
+// Host to client. Lobby updates only carry the lobby fields.
+export interface StateUpdatePayload {
+  players?: Player[]; // Redacted for the recipient
+  playerChanges?: PlayerChange[]; // Deltas only, in place of players while the seats stay the same
+  deckCount?: number;
+  discardPile?: Card[];
+  currentPlayerIndex?: number;
+  turnPhase?: TurnPhase;
+  gameState?: GameState;
+  phases?: Phase[];
+  roundWinnerId?: string | null;
+  roundNumber?: number;
+  seed?: string;
+  rules?: GameRules;
+  discardPickups?: DiscardPickup[];
+  finishedPlayerIds?: string[];
+  turnDeadline?: number | null; // Host clock time the current turn runs out, null without a turn timer
+  turnDuration?: number;
+  roomCode?: string;
+  lobby?: LobbyState;
+  hostGeneration?: number; // Bumped each time the room moves to a new host
+  successorId?: string | null; // Who takes over hosting if the host drops out
+  backup?: HostBackup; // Sent to the successor only
+}
+
+// Transports
+
+export type TransportId = 'PEERJS' | 'BROADCAST' | 'MEMORY';
+
+// One link between the host and a client
+export interface TransportConnection {
+  readonly open: boolean;
+  onOpen: (handler: () => void) => void; // Runs straight away if already open
+  send: (message: NetworkMessage) => void;
+  onMessage: (handler: (data: unknown) => void) => void; // Raw data, validated by the receiver
+  onClose: (handler: () => void) => void;
+  close: () => void;
+}
+
+export interface TransportEndpointHandlers {
+  onReady?: () => void;
+  onConnection?: (conn: TransportConnection) => void; // Hosts only
+  onError?: (message: string) => void;
+}
+
+// This browser's presence on a transport: a host reachable by id, or an anonymous client
+export interface TransportEndpoint {
+  connect: (hostId: string) => TransportConnection | null;
+  close: () => void;
+}
+
+export interface Transport {
+  id: TransportId;
+  name: string;
+  description: string;
+  isAvailable: () => boolean;
+  open: (endpointId: string | null, handlers: TransportEndpointHandlers) => TransportEndpoint;
+}
+
+// Everything a successor needs to carry on hosting from the last confirmed snapshot.
+// The successor necessarily sees every hand and the draw pile order, but never a session token.
+export interface HostBackup {
+  snapshot: GameSnapshot;
+  sessions: { playerId: string; name: string; sessionVerifier: string; spectator?: boolean }[];
+  turnDuration: number;
+}
+
+// How well a client's copy of the game has tracked the host's, for the sync debug panel
+export interface SyncStats {
+  updates: number; // State updates applied (client) or sent (host)
+  deltas: number;
+  gaps: number; // Deltas that arrived out of sequence
+  desyncs: number; // Updates after which the client's state hash didn't match the host's
+  resyncs: number; // Full views requested (client) or served (host)
+  lastSeq: number | null;
+  lastHash: string | null;
+}
+
+// Every client action carries an id, and the host answers each one with ACTION_ACCEPTED or ACTION_REJECTED.
+// State is numbered per client: STATE_UPDATE carries the whole view, STATE_DELTA only the fields that
+// changed since `seq - 1`. `sentAt` is the host's clock, so clients can read deadlines against it, and
+// `hash` covers the public game state the update should leave the client with.
+export type NetworkMessage =
+  | { type: 'STATE_UPDATE'; payload: StateUpdatePayload; seq: number; sentAt: number; hash?: string }
+  | { type: 'STATE_DELTA'; payload: StateUpdatePayload; seq: number; sentAt: number; hash?: string }
+  | { type: 'RESYNC_REQUEST'; payload: { lastSeq: number } }
+  | { type: 'SET_READY'; payload: { ready: boolean } }
+  | { type: 'KICKED'; payload: { message: string } }
+  | { type: 'SEATED'; payload: { playerId: string } } // A spectator was given this seat
+  | { type: 'ACTION'; payload: NetworkActionPayload; actionId: string }
+  | { type: 'ACTION_ACCEPTED'; payload: { action: NetworkActionType }; actionId: string }
+  | { type: 'PLAYER_JOINED'; payload: PlayerJoinedPayload }
+  | { type: 'ACTION_REJECTED'; payload: ActionRejection; actionId?: string };
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { ActionResult, BotProfile, Card, CardType, GameEvent, GameSnapshot, Meld, NetworkActionPayload, Player, RequirementType, TurnPhase } from '../types';
+import { BOT_PROFILES } from '../constants';
+import { applyAction, getCurrentPlayer, isBotControlled } from './gameEngine';
+import { analyzePhaseProgress, canAddToMeld } from './gameUtils';
+import { RandomFn, createRng, hashSeed } from './random';
+
+// --- Bot Strategy ---
+// Bots plan against their own phase using the same search the validator is built on,
+// so anything they lay down is a legal meld. Difficulty profiles decide how much of
+// the table they pay attention to.
+
+interface TurnContext {
+  profile: BotProfile;
+  random: RandomFn;
+  triedMeld: boolean;
+  willHit: boolean;
+}
+
+export const getBotProfile = (bot: Player): BotProfile => BOT_PROFILES[bot.botDifficulty || 'NORMAL'];
+
+const phaseMissing = (state: GameSnapshot, bot: Player, hand: Card[]): number => {
+  return analyzePhaseProgress(hand, state.phases[bot.phaseIndex].requirements, state.rules).missing;
+};
+
+const allMelds = (state: GameSnapshot): Meld[] => state.players.flatMap(p => p.melds);
+
+const nextPlayer = (state: GameSnapshot, bot: Player): Player => {
+  const index = state.players.findIndex(p => p.id === bot.id);
+  return state.players[(index + 1) % state.players.length];
+};
+
+// Would this card help the next player? Judged from public information only:
+// the melds they could hit on, or what they've been taking from the discard pile.
+const feedsPlayer = (state: GameSnapshot, target: Player, card: Card): boolean => {
+  if (card.type === CardType.WILD) return true;
+  if (card.type === CardType.SKIP) return false;
+  if (target.hasLaidDownPhase) return allMelds(state).some(m => canAddToMeld(card, m, state.rules));
+
+  const taken = state.discardPickups.filter(p => p.playerId === target.id).map(p => p.card);
+  const wanted = state.phases[target.phaseIndex].requirements.map(r => r.type);
+  return taken.some(t => (
+    ((wanted.includes(RequirementType.SET) || wanted.includes(RequirementType.PAIRS)) && t.value === card.value) ||
+    (wanted.includes(RequirementType.RUN) && Math.abs(t.value - card.value) <= 2) ||
+    (wanted.includes(RequirementType.COLOR) && t.color === card.color) ||
+    (wanted.includes(RequirementType.COLOR_RUN) && t.color === card.color && Math.abs(t.value - card.value) <= 2) ||
+    (wanted.includes(RequirementType.EVEN_ODD) && t.value % 2 === card.value % 2)
+  ));
+};
+
+// Take the top discard only when it brings the bot's phase closer
+const wantsDiscard = (state: GameSnapshot, bot: Player, ctx: TurnContext): boolean => {
+  const top = state.discardPile[state.discardPile.length - 1];
+  if (!ctx.profile.usesDiscardPile || !top || bot.hasLaidDownPhase) return false;
+  if (top.type === CardType.SKIP && !state.rules.allowSkipPickup) return false;
+  return phaseMissing(state, bot, [...bot.hand, top]) < phaseMissing(state, bot, bot.hand);
+};
+
+// Skips hurt most when the next player is close to going out
+const shouldPlaySkip = (state: GameSnapshot, bot: Player, ctx: TurnContext): boolean => {
+  if (!ctx.profile.strategicSkips) return true;
+  const target = nextPlayer(state, bot);
+  return target.hasLaidDownPhase || target.hand.length <= 4 || bot.hand.length <= 3;
+};
+
+// Discard something outside the bot's best partial phase: Skips first, then the costliest card.
+// If every card is useful, give up the one whose loss sets the phase back the least.
+const chooseDiscard = (state: GameSnapshot, bot: Player, ctx: TurnContext): Card | undefined => {
+  const byCost = [...bot.hand].sort((a, b) => b.value - a.value);
+  const naturals = byCost.filter(c => c.type === CardType.NUMBER);
+
+  if (naturals.length > 0 && ctx.random() < ctx.profile.mistakeChance) {
+    return naturals[Math.floor(ctx.random() * naturals.length)];
+  }
+
+  const skip = byCost.find(c => c.type === CardType.SKIP);
+  if (skip && (naturals.length === 0 || shouldPlaySkip(state, bot, ctx))) return skip;
+
+  const progress = bot.hasLaidDownPhase ? null : analyzePhaseProgress(bot.hand, state.phases[bot.phaseIndex].requirements, state.rules);
+  const spares = naturals.filter(c => !progress || !progress.usedCardIds.includes(c.id));
+
+  if (spares.length > 0) {
+    if (!ctx.profile.defensiveDiscards) return spares[0];
+    const target = nextPlayer(state, bot);
+    return spares.find(c => !feedsPlayer(state, target, c)) || spares[0];
+  }
+
+  let choice = naturals[0] || byCost[0];
+  let leastMissing = Infinity;
+  naturals.forEach(card => {
+    const missing = phaseMissing(state, bot, bot.hand.filter(c => c.id !== card.id));
+    if (missing < leastMissing) {
+      leastMissing = missing;
+      choice = card;
+    }
+  });
+  return choice;
+};
+
+// Dump the costliest card that fits on any meld on the table
+const findHit = (state: GameSnapshot, bot: Player): NetworkActionPayload | null => {
+  const byCost = [...bot.hand].sort((a, b) => b.value - a.value);
+  for (const card of byCost) {
+    const meld = allMelds(state).find(m => canAddToMeld(card, m, state.rules));
+    if (meld) return { action: 'HIT', playerId: bot.id, cardId: card.id, meldId: meld.id };
+  }
+  return null;
+};
+
+// Decides the bot's next action from the snapshot alone.
+const chooseBotAction = (state: GameSnapshot, ctx: TurnContext): NetworkActionPayload => {
+  const bot = getCurrentPlayer(state)!;
+
+  if (state.turnPhase === TurnPhase.DRAW) {
+    return { action: 'DRAW', playerId: bot.id, fromDiscard: wantsDiscard(state, bot, ctx) };
+  }
+
+  // Lay down the phase as soon as the hand holds it
+  if (!ctx.triedMeld && !bot.hasLaidDownPhase) {
+    const progress = analyzePhaseProgress(bot.hand, state.phases[bot.phaseIndex].requirements, state.rules);
+    if (progress.complete) return { action: 'MELD', playerId: bot.id, cardIds: progress.usedCardIds };
+  }
+
+  if (bot.hasLaidDownPhase && ctx.willHit) {
+    const hit = findHit(state, bot);
+    if (hit) return hit;
+  }
+
+  return { action: 'DISCARD', playerId: bot.id, cardId: chooseDiscard(state, bot, ctx)?.id };
+};
+
+// Plays the current bot's whole turn through the reducer.
+export const playBotTurn = (state: GameSnapshot): ActionResult => {
+  const bot = getCurrentPlayer(state);
+  if (!bot || !isBotControlled(bot)) return { ok: false, rejection: { code: 'NOT_YOUR_TURN', message: "It's not a bot's turn." } };
+
+  // Seeded from the snapshot so bot turns replay identically, on a stream separate from the deck's.
+  // rngState only moves on a deal or reshuffle, but every draw shrinks the deck or adds a discard pickup,
+  // so each turn rolls afresh.
+  const rng = createRng(hashSeed(`${state.seed}:${state.rngState}:${state.roundNumber}:${state.deck.length}:${state.discardPickups.length}:${bot.id}`));
+  const profile = getBotProfile(bot);
+  const ctx: TurnContext = { profile, random: rng.next, triedMeld: false, willHit: rng.next() < profile.hitChance };
+  let current = state;
+  const events: GameEvent[] = [];
+
+  // Bounded so a misbehaving strategy can never spin forever
+  for (let step = 0; step < 50; step++) {
+    const action = chooseBotAction(current, ctx);
+    const result = applyAction(current, action);
+
+    if (result.ok === false) {
+      // A failed meld or hit just means the bot moves on to discarding
+      if (action.action === 'MELD') {
+        ctx.triedMeld = true;
+        continue;
+      }
+      if (action.action === 'HIT') {
+        ctx.willHit = false;
+        continue;
+      }
+      return result;
+    }
+
+    if (action.action === 'MELD') ctx.triedMeld = true;
+    current = result.state;
+    events.push(...result.events);
+
+    const stillBotsTurn = current.gameState === state.gameState && getCurrentPlayer(current)?.id === bot.id;
+    if (!stillBotsTurn || action.action === 'DISCARD') break;
+  }
+
+  return { ok: true, state: current, events };
+};
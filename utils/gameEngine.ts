@@ -0,0 +1,351 @@
+import { ActionRejectionCode, ActionResult, Card, CardType, GameEvent, GameRules, GameSnapshot, GameState, Meld, MeldIssue, NetworkActionPayload, Phase, Player, TurnPhase } from '../types';
+import { MAX_PLAYERS, MIN_PLAYERS } from '../constants';
+import { createDeck, decksNeeded, shuffleDeck, dealCards, validatePhaseHand, calculateScore, addCardToMeld } from './gameUtils';
+import { createRng, hashSeed } from './random';
+
+// Pure rules engine. Every state transition in the game goes through applyAction,
+// whether it comes from the local player, a remote client or a bot.
+
+// --- Helpers ---
+
+const reject = (code: ActionRejectionCode, message: string, issues?: MeldIssue[]): ActionResult => ({
+  ok: false,
+  rejection: issues ? { code, message, issues } : { code, message }
+});
+
+const accept = (state: GameSnapshot, events: GameEvent[] = []): ActionResult => ({
+  ok: true,
+  state,
+  events
+});
+
+const replacePlayer = (players: Player[], index: number, player: Player): Player[] => {
+  const newPlayers = [...players];
+  newPlayers[index] = player;
+  return newPlayers;
+};
+
+export const getCurrentPlayer = (state: GameSnapshot): Player | undefined => state.players[state.currentPlayerIndex];
+
+// Final ranking: players who finished every phase first, then furthest phase, then lowest score
+export const getStandings = (state: GameSnapshot): Player[] => {
+  const finished = (p: Player) => (state.finishedPlayerIds.includes(p.id) ? 1 : 0);
+  return [...state.players].sort((a, b) => finished(b) - finished(a) || b.phaseIndex - a.phaseIndex || a.score - b.score);
+};
+
+// --- Seats ---
+// Connection state lives on the player so every client can see who dropped out.
+// It never changes the rules, only who makes the moves for a seat.
+
+export const isBotControlled = (player: Player): boolean => !player.isHuman || !!player.botStandIn;
+
+export const setSeatConnected = (state: GameSnapshot, playerId: string, connected: boolean): GameSnapshot => ({
+  ...state,
+  players: state.players.map(p => (p.id === playerId ? { ...p, isDisconnected: !connected, botStandIn: connected ? false : p.botStandIn } : p))
+});
+
+// Only seats still waiting for their player get a stand-in
+export const assignBotStandIn = (state: GameSnapshot, playerId: string): GameSnapshot => ({
+  ...state,
+  players: state.players.map(p => (p.id === playerId && p.isDisconnected ? { ...p, botStandIn: true } : p))
+});
+
+// A spectator takes over a bot-controlled seat between rounds, keeping its phase and score
+export const seatHuman = (state: GameSnapshot, playerId: string, name: string): GameSnapshot => ({
+  ...state,
+  players: state.players.map(p => (p.id === playerId
+    ? { ...p, name, isHuman: true, botDifficulty: undefined, botStandIn: false, isDisconnected: false }
+    : p))
+});
+
+// A spectator fills an open seat between rounds. Starting on the worst score means arriving late never pays.
+export const addSeat = (state: GameSnapshot, playerId: string, name: string): GameSnapshot => ({
+  ...state,
+  players: [...state.players, {
+    id: playerId,
+    name,
+    isHuman: true,
+    hand: [], melds: [], phaseIndex: 0, hasLaidDownPhase: false,
+    score: Math.max(0, ...state.players.map(p => p.score))
+  }]
+});
+
+// --- Player Views ---
+// Remote clients only receive what their seat could see at a real table.
+
+// Works for redacted opponents, whose hand arrives empty
+export const getHandSize = (player: Player): number => player.handCount ?? player.hand.length;
+
+export const redactPlayers = (players: Player[], viewerId: string): Player[] => players.map(p => (
+  p.id === viewerId ? p : { ...p, hand: [], handCount: p.hand.length }
+));
+
+// Only the top discard is face up
+export const visibleDiscards = (discardPile: Card[]): Card[] => discardPile.slice(-1);
+
+// --- Setup ---
+
+export const createGameSnapshot = (players: Player[], phases: Phase[], seed: string, rules: GameRules): GameSnapshot => ({
+  players: players.map(p => ({ ...p, hand: [], melds: [], hasLaidDownPhase: false, isSkipped: false })),
+  deck: [],
+  discardPile: [],
+  currentPlayerIndex: 0,
+  turnPhase: TurnPhase.DRAW,
+  gameState: GameState.LOBBY,
+  phases,
+  roundWinnerId: null,
+  roundNumber: 0,
+  rules,
+  discardPickups: [],
+  seed,
+  rngState: hashSeed(seed),
+  finishedPlayerIds: []
+});
+
+const dealRound = (state: GameSnapshot): GameSnapshot => {
+  const roundNumber = state.roundNumber + 1;
+  // Deals depend only on the seed and round, never on how earlier rounds were played
+  const rng = createRng(hashSeed(`${state.seed}:${roundNumber}`));
+  const newDeck = shuffleDeck(createDeck(state.rules, decksNeeded(state.players.length, state.rules)), rng.next);
+  const { hands, remainingDeck } = dealCards(newDeck, state.players.length, state.rules.handSize);
+
+  // Start Discard Pile
+  const firstDiscard = remainingDeck.pop()!;
+
+  const players = state.players.map((p, idx) => ({
+    ...p,
+    hand: hands[idx].sort((a, b) => a.value - b.value),
+    melds: [],
+    hasLaidDownPhase: false,
+    isSkipped: false
+  }));
+
+  return {
+    ...state,
+    players,
+    deck: remainingDeck,
+    discardPile: [firstDiscard],
+    currentPlayerIndex: 0,
+    turnPhase: TurnPhase.DRAW,
+    gameState: GameState.PLAYING,
+    roundWinnerId: null,
+    roundNumber,
+    discardPickups: [],
+    rngState: rng.state()
+  };
+};
+
+const endRound = (state: GameSnapshot, winnerId: string): GameSnapshot => {
+  // Checked before phaseIndex advances, since it stays capped at the last phase
+  const finishedNow = state.players
+    .filter(p => p.hasLaidDownPhase && p.phaseIndex === state.phases.length - 1)
+    .map(p => p.id);
+
+  const players = state.players.map(p => ({
+    ...p,
+    score: p.id === winnerId ? p.score : p.score + calculateScore(p.hand, state.rules.scoring),
+    phaseIndex: p.hasLaidDownPhase ? Math.min(p.phaseIndex + 1, state.phases.length - 1) : p.phaseIndex
+  }));
+
+  return {
+    ...state,
+    players,
+    roundWinnerId: winnerId,
+    gameState: GameState.ROUND_OVER,
+    finishedPlayerIds: [...state.finishedPlayerIds, ...finishedNow.filter(id => !state.finishedPlayerIds.includes(id))]
+  };
+};
+
+// --- Turn Actions ---
+
+const draw = (state: GameSnapshot, playerIndex: number, fromDiscard: boolean): ActionResult => {
+  if (state.turnPhase !== TurnPhase.DRAW) return reject('WRONG_TURN_PHASE', "You have already drawn this turn.");
+
+  const player = state.players[playerIndex];
+  const events: GameEvent[] = [];
+  let deck = [...state.deck];
+  let discardPile = [...state.discardPile];
+  let rngState = state.rngState;
+  let discardPickups = state.discardPickups;
+  let card: Card;
+
+  if (fromDiscard) {
+    const top = discardPile[discardPile.length - 1];
+    if (!top) return reject('INVALID_ACTION', "The discard pile is empty.");
+    if (top.type === CardType.SKIP && !state.rules.allowSkipPickup) return reject('SKIP_PICKUP', "Cannot pick up a Skip card!");
+    card = discardPile.pop()!;
+    discardPickups = [...discardPickups, { playerId: player.id, card }];
+  } else {
+    if (deck.length === 0) {
+      if (discardPile.length <= 1) return reject('DECK_EXHAUSTED', "Deck empty and no discard to shuffle. Game Draw.");
+      const top = discardPile.pop()!;
+      const rng = createRng(rngState);
+      deck = shuffleDeck(discardPile, rng.next);
+      rngState = rng.state();
+      discardPile = [top];
+      events.push({ type: 'DECK_RESHUFFLED' });
+    }
+    card = deck.pop()!;
+  }
+
+  return accept({
+    ...state,
+    deck,
+    discardPile,
+    rngState,
+    discardPickups,
+    players: replacePlayer(state.players, playerIndex, { ...player, hand: [...player.hand, card] }),
+    turnPhase: TurnPhase.ACTION
+  }, events);
+};
+
+const discard = (state: GameSnapshot, playerIndex: number, cardId: string | undefined): ActionResult => {
+  if (state.turnPhase === TurnPhase.DRAW) return reject('WRONG_TURN_PHASE', "Draw a card first.");
+
+  const player = state.players[playerIndex];
+  const card = player.hand.find(c => c.id === cardId);
+  if (!card) return reject('CARD_NOT_IN_HAND', "Select exactly one card to discard.");
+
+  const hand = player.hand.filter(c => c.id !== card.id);
+  const discardPile = [...state.discardPile, card];
+  let players = replacePlayer(state.players, playerIndex, { ...player, hand });
+
+  if (hand.length === 0) {
+    return accept(endRound({ ...state, players, discardPile }, player.id), [{ type: 'ROUND_OVER', winnerId: player.id }]);
+  }
+
+  const events: GameEvent[] = [];
+  let nextIndex = (playerIndex + 1) % players.length;
+  // A skip marker only lasts until the next turn passes
+  players = players.map(p => (p.isSkipped ? { ...p, isSkipped: false } : p));
+
+  if (card.type === CardType.SKIP) {
+    const skipped = players[nextIndex];
+    players = replacePlayer(players, nextIndex, { ...skipped, isSkipped: true });
+    events.push({ type: 'PLAYER_SKIPPED', playerId: skipped.id });
+    nextIndex = (nextIndex + 1) % players.length;
+  }
+
+  return accept({
+    ...state,
+    players,
+    discardPile,
+    currentPlayerIndex: nextIndex,
+    turnPhase: TurnPhase.DRAW
+  }, events);
+};
+
+const meld = (state: GameSnapshot, playerIndex: number, cardIds: string[] | undefined): ActionResult => {
+  if (state.turnPhase !== TurnPhase.ACTION) return reject('WRONG_TURN_PHASE', "You can only lay down your phase after drawing.");
+
+  const player = state.players[playerIndex];
+  if (player.hasLaidDownPhase) return reject('PHASE_ALREADY_DONE', "You have already completed your phase this round.");
+
+  const ids = cardIds || [];
+  const selectedHand = player.hand.filter(c => ids.includes(c.id));
+  if (selectedHand.length === 0 || selectedHand.length !== ids.length) {
+    return reject('CARD_NOT_IN_HAND', "Selected cards are not in your hand.");
+  }
+
+  const currentPhase = state.phases[player.phaseIndex];
+  const validation = validatePhaseHand(selectedHand, currentPhase.requirements, state.rules);
+  if (!validation.valid || !validation.groups) {
+    const issues = validation.issues || [];
+    return reject('INVALID_MELD', issues[0]?.message || "Invalid card combination for this phase.", issues);
+  }
+
+  const newMelds: Meld[] = validation.groups.map((group, idx) => ({
+    id: `meld-${state.roundNumber}-${player.id}-${idx}`,
+    cards: group.cards,
+    type: group.requirement.type,
+    ownerId: player.id,
+    wilds: group.wilds
+  }));
+
+  const hand = player.hand.filter(c => !ids.includes(c.id));
+  const players = replacePlayer(state.players, playerIndex, {
+    ...player,
+    hand,
+    melds: [...player.melds, ...newMelds],
+    hasLaidDownPhase: true
+  });
+
+  const events: GameEvent[] = [{ type: 'PHASE_COMPLETED', playerId: player.id }];
+  if (hand.length === 0) {
+    return accept(endRound({ ...state, players }, player.id), [...events, { type: 'ROUND_OVER', winnerId: player.id }]);
+  }
+  return accept({ ...state, players }, events);
+};
+
+const hit = (state: GameSnapshot, playerIndex: number, cardId: string | undefined, meldId: string | undefined): ActionResult => {
+  if (state.turnPhase !== TurnPhase.ACTION) return reject('WRONG_TURN_PHASE', "You can only hit after drawing.");
+
+  const player = state.players[playerIndex];
+  if (!player.hasLaidDownPhase) return reject('PHASE_NOT_DONE', "You must lay down your phase first before hitting.");
+
+  const card = player.hand.find(c => c.id === cardId);
+  if (!card) return reject('CARD_NOT_IN_HAND', "Select exactly one card to hit.");
+
+  let targetMeld: Meld | undefined;
+  state.players.forEach(p => {
+    const m = p.melds.find(m => m.id === meldId);
+    if (m) targetMeld = m;
+  });
+  if (!targetMeld) return reject('MELD_NOT_FOUND', "Target phase not found.");
+  const updatedMeld = addCardToMeld(card, targetMeld, state.rules);
+  if (!updatedMeld) return reject('CARD_DOES_NOT_FIT', "That card doesn't fit in this phase.");
+
+  const hand = player.hand.filter(c => c.id !== card.id);
+  const players = state.players.map(p => {
+    const updatedPlayer = p.id === player.id ? { ...p, hand } : { ...p };
+    if (p.melds.some(m => m.id === meldId)) {
+      updatedPlayer.melds = p.melds.map(m => (m.id === meldId ? updatedMeld : m));
+    }
+    return updatedPlayer;
+  });
+
+  const events: GameEvent[] = [{ type: 'CARD_HIT', playerId: player.id, meldId: targetMeld.id }];
+  if (hand.length === 0) {
+    return accept(endRound({ ...state, players }, player.id), [...events, { type: 'ROUND_OVER', winnerId: player.id }]);
+  }
+  return accept({ ...state, players }, events);
+};
+
+// --- Reducer ---
+
+export const applyAction = (state: GameSnapshot, action: NetworkActionPayload): ActionResult => {
+  // Round lifecycle actions are not tied to a seat
+  if (action.action === 'START_GAME') {
+    if (state.gameState !== GameState.LOBBY) return reject('WRONG_GAME_STATE', "The game has already started.");
+    if (state.players.length < MIN_PLAYERS || state.players.length > MAX_PLAYERS) {
+      return reject('INVALID_ACTION', `Games need ${MIN_PLAYERS} to ${MAX_PLAYERS} players.`);
+    }
+    return accept(dealRound(state), [{ type: 'ROUND_STARTED' }]);
+  }
+
+  if (action.action === 'NEXT_ROUND') {
+    if (state.gameState !== GameState.ROUND_OVER) return reject('WRONG_GAME_STATE', "The round is not over yet.");
+    if (state.finishedPlayerIds.length > 0) return accept({ ...state, gameState: GameState.GAME_OVER }, [{ type: 'GAME_OVER' }]);
+    return accept(dealRound(state), [{ type: 'ROUND_STARTED' }]);
+  }
+
+  if (state.gameState !== GameState.PLAYING) return reject('WRONG_GAME_STATE', "The round is not in progress.");
+
+  const playerIndex = state.players.findIndex(p => p.id === action.playerId);
+  if (playerIndex === -1) return reject('UNKNOWN_PLAYER', "Unknown player.");
+
+  if (playerIndex !== state.currentPlayerIndex) return reject('NOT_YOUR_TURN', "It's not your turn.");
+
+  switch (action.action) {
+    case 'DRAW':
+      return draw(state, playerIndex, !!action.fromDiscard);
+    case 'DISCARD':
+      return discard(state, playerIndex, action.cardId);
+    case 'MELD':
+      return meld(state, playerIndex, action.cardIds);
+    case 'HIT':
+      return hit(state, playerIndex, action.cardId, action.meldId);
+    default:
+      return reject('INVALID_ACTION', `Unknown action: ${action.action}`);
+  }
+};
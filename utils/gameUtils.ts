@@ -1,16 +1,18 @@
-import { Card, CardColor, CardType, PhaseRequirement, RequirementType, Meld } from '../types';
-import { COLORS } from '../constants';
+import { Card, CardColor, CardType, GameRules, MeldIssue, Phase, PhaseRequirement, RequirementType, Meld, PhaseGroup, PhaseValidation, ScoringRules, WildAssignment } from '../types';
+import { COLORS, CLASSIC_RULES, REQUIREMENT_INFO } from '../constants';
+import { RandomFn, shuffle } from './random';
 
 // --- Deck Management ---
 
-export const createDeck = (): Card[] => {
+// One full deck. Ids start at firstId so several copies can be combined.
+const createSingleDeck = (rules: GameRules, firstId: number): Card[] => {
   const deck: Card[] = [];
-  let idCounter = 0;
+  let idCounter = firstId;
 
-  // 2 sets of numbers 1-12 for each color
+  // Sets of numbers 1-12 for each color (2 in Classic)
   COLORS.forEach(color => {
-    for (let set = 0; set < 2; set++) {
-      for (let val = 1; val <= 12; val++) {
+    for (let set = 0; set < rules.copiesPerColor; set++) {
+      for (let val = 1; val <= rules.maxCardValue; val++) {
         deck.push({
           id: `card-${idCounter++}`,
           type: CardType.NUMBER,
@@ -22,24 +24,24 @@ export const createDeck = (): Card[] => {
     }
   });
 
-  // 8 Wilds
-  for (let i = 0; i < 8; i++) {
+  // Wilds (8 in Classic)
+  for (let i = 0; i < rules.wildCount; i++) {
     deck.push({
       id: `card-${idCounter++}`,
       type: CardType.WILD,
       color: CardColor.WILD,
-      value: 25, // Score value
+      value: rules.scoring.wild, // Score value
       displayValue: 'W'
     });
   }
 
-  // 4 Skips
-  for (let i = 0; i < 4; i++) {
+  // Skips (4 in Classic)
+  for (let i = 0; i < rules.skipCount; i++) {
     deck.push({
       id: `card-${idCounter++}`,
       type: CardType.SKIP,
       color: CardColor.SKIP,
-      value: 15, // Score value
+      value: rules.scoring.skip, // Score value
       displayValue: 'S'
     });
   }
@@ -47,15 +49,23 @@ export const createDeck = (): Card[] => {
   return deck;
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
-  const newDeck = [...deck];
-  for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
+export const createDeck = (rules: GameRules = CLASSIC_RULES, copies: number = 1): Card[] => {
+  let deck: Card[] = [];
+  for (let copy = 0; copy < copies; copy++) {
+    deck = [...deck, ...createSingleDeck(rules, deck.length)];
   }
-  return newDeck;
+  return deck;
+};
+
+// Bigger tables shuffle in extra decks so there are always two hands' worth of cards per seat
+export const decksNeeded = (playerCount: number, rules: GameRules = CLASSIC_RULES): number => {
+  const deckSize = COLORS.length * rules.copiesPerColor * rules.maxCardValue + rules.wildCount + rules.skipCount;
+  return Math.max(1, Math.ceil((playerCount * rules.handSize * 2) / deckSize));
 };
 
+// Pass a seeded random source (see utils/random.ts) for reproducible deals
+export const shuffleDeck = (deck: Card[], random: RandomFn = Math.random): Card[] => shuffle(deck, random);
+
 export const dealCards = (deck: Card[], playerCount: number, handSize: number = 10) => {
   const hands: Card[][] = Array(playerCount).fill([]).map(() => []);
   let currentDeck = [...deck];
@@ -94,8 +104,9 @@ export const isValidSet = (cards: Card[], requiredCount: number): boolean => {
 // Helper: Check if a group forms a valid Color set
 export const isValidColor = (cards: Card[], requiredCount: number): boolean => {
   if (cards.length < requiredCount) return false;
-  
-  const naturalCards = cards.filter(c => c.type === CardType.NUMBER || c.type === CardType.SKIP);
+  if (cards.some(c => c.type === CardType.SKIP)) return false;
+
+  const naturalCards = cards.filter(c => c.type === CardType.NUMBER);
   const wilds = cards.filter(c => c.type === CardType.WILD);
 
   if (naturalCards.length === 0) return true;
@@ -107,8 +118,9 @@ export const isValidColor = (cards: Card[], requiredCount: number): boolean => {
 };
 
 // Helper: Check if a group forms a valid Run (Sequential)
-export const isValidRun = (cards: Card[], requiredCount: number): boolean => {
+export const isValidRun = (cards: Card[], requiredCount: number, maxValue: number = CLASSIC_RULES.maxCardValue): boolean => {
   if (cards.length < requiredCount) return false;
+  if (cards.length > maxValue) return false; // Must fit within 1-12
 
   const naturalCards = cards.filter(c => c.type === CardType.NUMBER).sort((a, b) => a.value - b.value);
   const wildCount = cards.filter(c => c.type === CardType.WILD).length;
@@ -129,78 +141,714 @@ export const isValidRun = (cards: Card[], requiredCount: number): boolean => {
   return wildCount >= neededWilds;
 };
 
+// Helper: Check if a group forms a valid Color Run (Sequential, all one color)
+export const isValidColorRun = (cards: Card[], requiredCount: number, maxValue: number = CLASSIC_RULES.maxCardValue): boolean => {
+  const naturalCards = cards.filter(c => c.type === CardType.NUMBER);
+  if (naturalCards.some(c => c.color !== naturalCards[0].color)) return false;
+  return isValidRun(cards, requiredCount, maxValue);
+};
+
+// Helper: Check if a group is all even or all odd numbers
+export const isValidEvenOdd = (cards: Card[], requiredCount: number): boolean => {
+  if (cards.length < requiredCount) return false;
+  if (cards.some(c => c.type === CardType.SKIP)) return false;
+
+  const naturalCards = cards.filter(c => c.type === CardType.NUMBER);
+  if (naturalCards.length === 0) return true;
+
+  const parity = naturalCards[0].value % 2;
+  return naturalCards.every(c => c.value % 2 === parity);
+};
+
+// Helper: Check if a group splits into pairs. Wilds partner any unmatched card, or each other.
+export const isValidPairs = (cards: Card[], requiredCount: number): boolean => {
+  if (cards.length < requiredCount || cards.length % 2 !== 0) return false;
+  if (cards.some(c => c.type === CardType.SKIP)) return false;
+
+  const wildCount = cards.filter(c => c.type === CardType.WILD).length;
+  const counts: Record<number, number> = {};
+  cards.filter(c => c.type === CardType.NUMBER).forEach(c => {
+    counts[c.value] = (counts[c.value] || 0) + 1;
+  });
+  const unmatched = Object.values(counts).filter(n => n % 2 === 1).length;
+
+  return wildCount >= unmatched;
+};
+
 // Main Validator
-export const validatePhaseHand = (selectedCards: Card[], requirements: PhaseRequirement[]): { valid: boolean, groups?: Card[][] } => {
-  const cards = [...selectedCards];
-  
-  if (requirements.length === 1) {
-    const req = requirements[0];
-    let valid = false;
-    if (req.type === RequirementType.SET) valid = isValidSet(cards, req.count);
-    if (req.type === RequirementType.COLOR) valid = isValidColor(cards, req.count);
-    if (req.type === RequirementType.RUN) valid = isValidRun(cards, req.count);
-    return { valid, groups: valid ? [cards] : undefined };
-  }
-
-  if (requirements.length === 2) {
-    const n = cards.length;
-    for (let i = 1; i < (1 << n) - 1; i++) {
-      const group1: Card[] = [];
-      const group2: Card[] = [];
-      
-      for (let j = 0; j < n; j++) {
-        if ((i >> j) & 1) group1.push(cards[j]);
-        else group2.push(cards[j]);
+// Partitions the selected cards across any number of requirements. Natural cards are
+// assigned in value order by backtracking (wilds are interchangeable, so only their count
+// matters), and positions are memoised by what each partial group still means for the
+// cards to come, which keeps larger hands and phases tractable.
+
+interface GroupDraft {
+  naturals: Card[];
+  // SET: value, COLOR: colour index, RUN: bitmask of values, COLOR_RUN: bitmask plus colour index << 16,
+  // EVEN_ODD: parity + 1, PAIRS: bitmask of values currently without a partner
+  key: number;
+}
+
+const COLOR_ORDER = Object.values(CardColor);
+const colorKey = (color: CardColor): number => COLOR_ORDER.indexOf(color) + 1;
+
+const COLOR_SHIFT = 16; // Above any card value bit
+
+// Runs and colour runs share the sequence rules
+const isSequence = (type: RequirementType): boolean => type === RequirementType.RUN || type === RequirementType.COLOR_RUN;
+
+const countBits = (mask: number): number => {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+};
+
+// Can this natural card join the group without breaking its requirement?
+const acceptsNatural = (group: GroupDraft, card: Card, req: PhaseRequirement): boolean => {
+  if (req.type === RequirementType.SET) {
+    return card.type === CardType.NUMBER && (group.naturals.length === 0 || group.key === card.value);
+  }
+  if (req.type === RequirementType.COLOR) {
+    return card.type === CardType.NUMBER && (group.naturals.length === 0 || group.key === colorKey(card.color));
+  }
+  if (req.type === RequirementType.RUN) {
+    return card.type === CardType.NUMBER && (group.key & (1 << card.value)) === 0;
+  }
+  if (req.type === RequirementType.COLOR_RUN) {
+    const sameColor = group.naturals.length === 0 || group.key >> COLOR_SHIFT === colorKey(card.color);
+    return card.type === CardType.NUMBER && sameColor && (group.key & (1 << card.value)) === 0;
+  }
+  if (req.type === RequirementType.EVEN_ODD) {
+    return card.type === CardType.NUMBER && (group.naturals.length === 0 || group.key === (card.value % 2) + 1);
+  }
+  if (req.type === RequirementType.PAIRS) {
+    return card.type === CardType.NUMBER;
+  }
+  return false;
+};
+
+const addNatural = (group: GroupDraft, card: Card, req: PhaseRequirement): GroupDraft => {
+  let key = group.key;
+  if (req.type === RequirementType.SET) key = card.value;
+  if (req.type === RequirementType.COLOR) key = colorKey(card.color);
+  if (req.type === RequirementType.RUN) key = group.key | (1 << card.value);
+  if (req.type === RequirementType.COLOR_RUN) key = group.key | (1 << card.value) | (colorKey(card.color) << COLOR_SHIFT);
+  if (req.type === RequirementType.EVEN_ODD) key = (card.value % 2) + 1;
+  if (req.type === RequirementType.PAIRS) key = group.key ^ (1 << card.value);
+  return { naturals: [...group.naturals, card], key };
+};
+
+// Minimum number of wilds needed to turn the group's naturals into a valid group
+const wildsNeeded = (group: GroupDraft, req: PhaseRequirement, maxValue: number): number => {
+  const n = group.naturals.length;
+  if (isSequence(req.type)) {
+    if (req.count > maxValue) return Infinity; // No run can be that long
+    if (n === 0) return req.count;
+    const values = group.naturals.map(c => c.value);
+    const span = Math.max(...values) - Math.min(...values) + 1;
+    return Math.max(span, req.count) - n;
+  }
+  if (req.type === RequirementType.PAIRS) {
+    // One wild per unmatched card, then whole pairs of wilds for whatever is left
+    const unmatched = countBits(group.key);
+    return unmatched + Math.max(0, req.count - n - unmatched);
+  }
+  return Math.max(0, req.count - n);
+};
+
+// How many spare wilds the group could still absorb; runs can't grow past 1-12.
+// Pairs are left out here, since they only take spares two at a time (see sparesForPairs).
+const spareCapacity = (group: GroupDraft, req: PhaseRequirement, maxValue: number): number => {
+  if (req.type === RequirementType.PAIRS) return 0;
+  if (!isSequence(req.type)) return Infinity;
+  return maxValue - (group.naturals.length + wildsNeeded(group, req, maxValue));
+};
+
+// A pairs group takes any number of extra whole pairs, natural or wild. Of `spare` wilds, this is
+// how many go to the first pairs group once the other groups are full, or null if they can't all go.
+const sparesForPairs = (spare: number, drafts: GroupDraft[], requirements: PhaseRequirement[], maxValue: number): number | null => {
+  const otherRoom = drafts.reduce((sum, d, i) => sum + spareCapacity(d, requirements[i], maxValue), 0);
+  let toPairs = Math.max(0, spare - otherRoom);
+  if (toPairs % 2 === 1) toPairs++; // One wild moves back over from the other groups to make a whole pair
+  if (toPairs === 0) return 0;
+  return toPairs <= spare && requirements.some(r => r.type === RequirementType.PAIRS) ? toPairs : null;
+};
+
+// Lay out a group, recording what each wild stands for. Runs come back in sequence order.
+const resolveGroup = (naturals: Card[], wilds: Card[], req: PhaseRequirement, maxValue: number): PhaseGroup => {
+  if (isSequence(req.type)) {
+    const sorted = [...naturals].sort((a, b) => a.value - b.value);
+    const runColor = req.type === RequirementType.COLOR_RUN ? sorted[0]?.color : undefined;
+    const length = sorted.length + wilds.length;
+    let start = sorted.length > 0 ? sorted[0].value : 1;
+    // Extra wilds extend the run upwards first, then downwards once it would pass 12
+    const top = start + length - 1;
+    if (top > maxValue) start = Math.max(1, start - (top - maxValue));
+
+    const cards: Card[] = [];
+    const assignments: WildAssignment[] = [];
+    let wildIdx = 0;
+    let natIdx = 0;
+    for (let value = start; value < start + length; value++) {
+      if (natIdx < sorted.length && sorted[natIdx].value === value) {
+        cards.push(sorted[natIdx++]);
+      } else {
+        const wild = wilds[wildIdx++];
+        cards.push(wild);
+        assignments.push(runColor ? { cardId: wild.id, value, color: runColor } : { cardId: wild.id, value });
       }
+    }
+    return { requirement: req, cards, wilds: assignments };
+  }
 
-      const check1 = checkSingleReq(group1, requirements[0]) && checkSingleReq(group2, requirements[1]);
-      if (check1) return { valid: true, groups: [group1, group2] };
+  if (req.type === RequirementType.PAIRS) {
+    // Lay out pair by pair, with a wild partnering each unmatched card
+    const sorted = [...naturals].sort((a, b) => a.value - b.value);
+    const spare = [...wilds];
+    const cards: Card[] = [];
+    const assignments: WildAssignment[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i + 1]?.value === sorted[i].value) {
+        cards.push(sorted[i], sorted[++i]);
+      } else {
+        const wild = spare.shift()!;
+        cards.push(sorted[i], wild);
+        assignments.push({ cardId: wild.id, value: sorted[i].value });
+      }
+    }
+    spare.forEach(w => {
+      cards.push(w);
+      assignments.push({ cardId: w.id });
+    });
+    return { requirement: req, cards, wilds: assignments };
+  }
 
-      const check2 = checkSingleReq(group2, requirements[0]) && checkSingleReq(group1, requirements[1]);
-      if (check2) return { valid: true, groups: [group2, group1] };
+  const first = naturals[0];
+  const assignments: WildAssignment[] = wilds.map(w => {
+    if (!first) return { cardId: w.id };
+    if (req.type === RequirementType.SET) return { cardId: w.id, value: first.value };
+    if (req.type === RequirementType.COLOR) return { cardId: w.id, color: first.color };
+    return { cardId: w.id }; // EVEN_ODD: any number of the right parity
+  });
+  return { requirement: req, cards: [...naturals, ...wilds], wilds: assignments };
+};
+
+// Requirements with the same type and count are interchangeable
+const requirementClasses = (requirements: PhaseRequirement[]): string[] => requirements.map(r => `${r.type}:${r.count}`);
+
+// What a partial group still means once every natural below `value` has been placed. Groups with
+// the same summary accept the same cards from here on and end up needing the same wilds, so the
+// search treats them as one: a set that can't grow only counts its cards, a run only its ends,
+// and pairs only how many cards are left without a partner.
+const draftSummary = (group: GroupDraft, req: PhaseRequirement, value: number): string => {
+  const n = group.naturals.length;
+  if (n === 0) return '-';
+  const capped = Math.min(n, req.count); // Cards past the count need no wilds and change nothing
+  const low = group.naturals[0];
+  const high = group.naturals[n - 1];
+  switch (req.type) {
+    case RequirementType.SET:
+      return `${high.value < value ? 'x' : high.value}.${capped}`;
+    case RequirementType.COLOR:
+      return `${low.color}.${capped}`;
+    case RequirementType.EVEN_ODD:
+      return `${low.value % 2}.${capped}`;
+    case RequirementType.RUN:
+      return `${low.value}-${high.value}.${n}`;
+    case RequirementType.COLOR_RUN:
+      return `${low.color}.${low.value}-${high.value}.${n}`;
+    case RequirementType.PAIRS: {
+      const waiting = (group.key & (1 << value)) !== 0; // Could still be matched by the next card
+      return `${countBits(group.key) - (waiting ? 1 : 0)}.${waiting ? 1 : 0}.${capped}`;
     }
   }
+  return `${group.key}.${n}`;
+};
 
-  return { valid: false };
+// Wilds a partial group will need whatever comes next: the gaps inside a run can't be filled
+// by higher cards, and a card lower than `value` left without a partner stays that way
+const committedWilds = (group: GroupDraft, req: PhaseRequirement, value: number): number => {
+  const n = group.naturals.length;
+  if (n > 0 && isSequence(req.type)) return group.naturals[n - 1].value - group.naturals[0].value + 1 - n;
+  if (req.type === RequirementType.PAIRS) return countBits(group.key & ((1 << value) - 1));
+  return 0;
 };
 
-const checkSingleReq = (cards: Card[], req: PhaseRequirement): boolean => {
-  if (req.type === RequirementType.SET) return isValidSet(cards, req.count);
-  if (req.type === RequirementType.COLOR) return isValidColor(cards, req.count);
-  if (req.type === RequirementType.RUN) return isValidRun(cards, req.count);
-  return false;
+// How many of naturals[index..] (sorted by value) a group could still take if it had them all to
+// itself, capped by what the group has room for; runs keep to a window of `count` values.
+// Both searches use it as a bound. An empty group's room only depends on the position, so it is cached.
+const createRoomFinder = (naturals: Card[]) => {
+  // Distinct values a run could still take, starting from `low` after `high`
+  const runReach = (index: number, req: PhaseRequirement, low: Card, high: number): number => {
+    let values = 0;
+    for (let i = index; i < naturals.length; i++) {
+      const card = naturals[i];
+      if (card.value - low.value >= req.count) break;
+      if (card.value > high && (req.type === RequirementType.RUN || card.color === low.color)) values |= 1 << card.value;
+    }
+    return countBits(values);
+  };
+
+  const emptyRoom = new Map<string, number>();
+
+  return (group: GroupDraft, req: PhaseRequirement, g: number, index: number): number => {
+    const n = group.naturals.length;
+    // Every card stranded without a partner already holds its partner's slot
+    const slots = req.count - n - (req.type === RequirementType.PAIRS ? committedWilds(group, req, naturals[index].value) : 0);
+    if (slots <= 0) return 0;
+
+    if (n === 0 && req.type !== RequirementType.PAIRS) {
+      const key = `${g}.${index}`;
+      if (!emptyRoom.has(key)) {
+        let most = 0;
+        if (isSequence(req.type)) {
+          for (let i = index; i < naturals.length; i++) most = Math.max(most, runReach(i, req, naturals[i], 0));
+        } else {
+          // Whichever value, colour or parity is most common
+          const tally = new Map<string | number, number>();
+          naturals.slice(index).forEach(c => {
+            const k = req.type === RequirementType.SET ? c.value : req.type === RequirementType.COLOR ? c.color : c.value % 2;
+            tally.set(k, (tally.get(k) || 0) + 1);
+            most = Math.max(most, tally.get(k)!);
+          });
+        }
+        emptyRoom.set(key, most);
+      }
+      return Math.min(slots, emptyRoom.get(key)!);
+    }
+
+    if (isSequence(req.type)) return Math.min(slots, runReach(index, req, group.naturals[0], group.naturals[n - 1].value));
+    let fits = 0;
+    for (let i = index; i < naturals.length && fits < slots; i++) {
+      if (acceptsNatural(group, naturals[i], req)) fits++;
+    }
+    return fits;
+  };
 };
 
-// Hitting Validator: Can we add this single card to this existing meld?
-export const canAddToMeld = (card: Card, meld: Meld): boolean => {
-  // Cannot add Skips to melds usually
-  if (card.type === CardType.SKIP) return false;
+// Memo key for a search position; interchangeable groups are sorted so their order doesn't matter
+const searchStateKey = (index: number, summaries: string[], reqClass: string[]): string => {
+  const byClass: Record<string, string[]> = {};
+  summaries.forEach((summary, i) => {
+    (byClass[reqClass[i]] = byClass[reqClass[i]] || []).push(summary);
+  });
+  return index + '|' + Object.keys(byClass).sort().map(k => `${k}=${byClass[k].sort().join(',')}`).join(';');
+};
+
+export const validatePhaseHand = (selectedCards: Card[], requirements: PhaseRequirement[], rules: GameRules = CLASSIC_RULES): PhaseValidation => {
+  if (requirements.length === 0) return { valid: false, issues: [{ requirementIndex: null, message: "This phase has no requirements.", cardIds: [] }] };
+  const maxValue = rules.maxCardValue;
+
+  const wilds = selectedCards.filter(c => c.type === CardType.WILD);
+  const naturals = selectedCards.filter(c => c.type !== CardType.WILD).sort((a, b) => a.value - b.value);
+  const totalRequired = requirements.reduce((sum, r) => sum + r.count, 0);
+  // No group takes a Skip, and they sort last, so catch them before searching
+  if (selectedCards.length < totalRequired || naturals.some(c => c.type === CardType.SKIP)) return { valid: false, issues: diagnoseMeld(selectedCards, requirements, rules) };
+
+  const reqClass = requirementClasses(requirements);
+  const failed = new Set<string>();
+  const roomFor = createRoomFinder(naturals);
+
+  // Wilds a group will need at the least, even if it got every later card it could use
+  const wildsFloor = (group: GroupDraft, g: number, index: number): number => {
+    const req = requirements[g];
+    // A run that outgrows its window only leaves more gaps, so the window still gives the floor
+    return Math.max(committedWilds(group, req, naturals[index].value), req.count - group.naturals.length - roomFor(group, req, g, index));
+  };
+
+  const search = (index: number, drafts: GroupDraft[]): GroupDraft[] | null => {
+    if (index === naturals.length) {
+      const needed = drafts.reduce((sum, d, i) => sum + wildsNeeded(d, requirements[i], maxValue), 0);
+      return needed <= wilds.length && sparesForPairs(wilds.length - needed, drafts, requirements, maxValue) !== null ? drafts : null;
+    }
+
+    const card = naturals[index];
+    const key = searchStateKey(index, drafts.map((d, i) => draftSummary(d, requirements[i], card.value)), reqClass);
+    if (failed.has(key)) return null;
+    if (drafts.reduce((sum, d, g) => sum + wildsFloor(d, g, index), 0) > wilds.length) {
+      failed.add(key);
+      return null;
+    }
+
+    const triedEmptyClasses = new Set<string>();
+    for (let g = 0; g < drafts.length; g++) {
+      const req = requirements[g];
+      if (!acceptsNatural(drafts[g], card, req)) continue;
+      // Starting any one of several identical empty groups is equivalent
+      if (drafts[g].naturals.length === 0) {
+        if (triedEmptyClasses.has(reqClass[g])) continue;
+        triedEmptyClasses.add(reqClass[g]);
+      }
+      const next = [...drafts];
+      next[g] = addNatural(drafts[g], card, req);
+      const result = search(index + 1, next);
+      if (result) return result;
+    }
 
-  // Try combining current meld cards + new card
-  const newGroup = [...meld.cards, card];
+    failed.add(key);
+    return null;
+  };
+
+  const solution = search(0, requirements.map(() => ({ naturals: [], key: 0 })));
+  if (!solution) return { valid: false, issues: diagnoseMeld(selectedCards, requirements, rules) };
+
+  // Hand out wilds: first what each group needs, then whole pairs of spares to pairs, then the rest to groups with room
+  const remainingWilds = [...wilds];
+  const wildsPerGroup = solution.map((d, i) => remainingWilds.splice(0, wildsNeeded(d, requirements[i], maxValue)));
+  const toPairs = sparesForPairs(remainingWilds.length, solution, requirements, maxValue)!;
+  if (toPairs > 0) wildsPerGroup[requirements.findIndex(r => r.type === RequirementType.PAIRS)].push(...remainingWilds.splice(0, toPairs));
+  solution.forEach((d, i) => {
+    const room = Math.min(remainingWilds.length, spareCapacity(d, requirements[i], maxValue));
+    wildsPerGroup[i].push(...remainingWilds.splice(0, room));
+  });
+
+  const groups = solution.map((d, i) => resolveGroup(d.naturals, wildsPerGroup[i], requirements[i], maxValue));
+  return { valid: true, groups };
+};
 
-  if (meld.type === RequirementType.SET) {
-    // For Sets, count doesn't matter as long as it's > required, which it is if it was already a valid meld
-    return isValidSet(newGroup, meld.cards.length); 
+// --- Hand Analysis ---
+// Finds the best partial phase in a whole hand: the most natural cards that can be placed
+// towards the requirements, with wilds then covering as much of the shortfall as possible.
+
+export interface GroupProgress {
+  requirement: PhaseRequirement;
+  cards: Card[];
+  missing: number; // Cards still needed after wilds
+}
+
+export interface PhaseProgress {
+  complete: boolean;
+  missing: number;
+  groups: GroupProgress[];
+  usedCardIds: string[];
+}
+
+export const analyzePhaseProgress = (hand: Card[], requirements: PhaseRequirement[], rules: GameRules = CLASSIC_RULES): PhaseProgress => {
+  const maxValue = rules.maxCardValue;
+  const wilds = hand.filter(c => c.type === CardType.WILD);
+  const naturals = hand.filter(c => c.type === CardType.NUMBER).sort((a, b) => a.value - b.value); // Skips never fit
+  const reqClass = requirementClasses(requirements);
+  const memo = new Map<string, number>();
+  const roomFor = createRoomFinder(naturals);
+
+  // A partial group may hold at most `count` naturals, and a run's naturals must fit a window of that size
+  const canPlace = (group: GroupDraft, card: Card, req: PhaseRequirement): boolean => {
+    if (group.naturals.length >= req.count || !acceptsNatural(group, card, req)) return false;
+    if (isSequence(req.type)) {
+      if (req.count > maxValue) return false;
+      const low = group.naturals.length > 0 ? group.naturals[0].value : card.value;
+      return card.value - low < req.count;
+    }
+    if (req.type === RequirementType.PAIRS) {
+      // Every unmatched card still needs a partner, so it takes up two slots
+      return group.naturals.length + 1 + countBits(group.key ^ (1 << card.value)) <= req.count;
+    }
+    return true;
+  };
+
+  const choices = (index: number, drafts: GroupDraft[]): GroupDraft[][] => {
+    const card = naturals[index];
+    const options: GroupDraft[][] = [];
+    const triedEmptyClasses = new Set<string>();
+    drafts.forEach((draft, g) => {
+      if (!canPlace(draft, card, requirements[g])) return;
+      if (draft.naturals.length === 0) {
+        if (triedEmptyClasses.has(reqClass[g])) return;
+        triedEmptyClasses.add(reqClass[g]);
+      }
+      const next = [...drafts];
+      next[g] = addNatural(draft, card, requirements[g]);
+      options.push(next);
+    });
+    return options;
+  };
+
+  // Here groups never pass their count, so a run is summed up by its ends alone (its window fills
+  // before its count does) and pairs by the slots already spoken for
+  const placementSummary = (group: GroupDraft, req: PhaseRequirement, value: number): string => {
+    const n = group.naturals.length;
+    if (n === 0) return '-';
+    if (req.type === RequirementType.RUN) return `${group.naturals[0].value}-${group.naturals[n - 1].value}`;
+    if (req.type === RequirementType.COLOR_RUN) return `${group.naturals[0].color}.${group.naturals[0].value}-${group.naturals[n - 1].value}`;
+    if (req.type === RequirementType.PAIRS) {
+      const waiting = (group.key & (1 << value)) !== 0;
+      return `${n + countBits(group.key)}.${waiting ? 1 : 0}`;
+    }
+    return draftSummary(group, req, value);
+  };
+
+  // Most naturals that can still be placed from this position
+  const best = (index: number, drafts: GroupDraft[]): number => {
+    if (index === naturals.length) return 0;
+    // No position can beat placing every remaining card, or every group taking all it could on its own.
+    // Only placed naturals are counted, so a group that can take nothing more no longer matters.
+    const rooms = drafts.map((d, i) => roomFor(d, requirements[i], i, index));
+    const bound = Math.min(naturals.length - index, rooms.reduce((sum, r) => sum + r, 0));
+    if (bound === 0) return 0;
+
+    const value = naturals[index].value;
+    const key = searchStateKey(index, drafts.map((d, i) => (rooms[i] === 0 ? 'x' : placementSummary(d, requirements[i], value))), reqClass);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result = 0;
+    for (const next of choices(index, drafts)) {
+      result = Math.max(result, 1 + best(index + 1, next));
+      if (result === bound) break;
+    }
+    if (result < bound) result = Math.max(result, best(index + 1, drafts)); // Leave this card out
+    memo.set(key, result);
+    return result;
+  };
+
+  // Walk the memoised search again to recover one optimal placement
+  let drafts: GroupDraft[] = requirements.map(() => ({ naturals: [], key: 0 }));
+  for (let index = 0; index < naturals.length; index++) {
+    const target = best(index, drafts);
+    if (best(index + 1, drafts) === target) continue;
+    drafts = choices(index, drafts).find(next => 1 + best(index + 1, next) === target) || drafts;
   }
 
-  if (meld.type === RequirementType.COLOR) {
-    return isValidColor(newGroup, meld.cards.length);
+  // Spread wilds over the shortfall in requirement order
+  let wildsLeft = [...wilds];
+  const groups: GroupProgress[] = drafts.map((d, i) => {
+    const shortfall = wildsNeeded(d, requirements[i], maxValue);
+    const used = wildsLeft.slice(0, Math.min(shortfall, wildsLeft.length));
+    wildsLeft = wildsLeft.slice(used.length);
+    return { requirement: requirements[i], cards: [...d.naturals, ...used], missing: shortfall - used.length };
+  });
+
+  const missing = groups.reduce((sum, g) => sum + g.missing, 0);
+  return {
+    complete: missing === 0,
+    missing,
+    groups,
+    usedCardIds: groups.flatMap(g => g.cards.map(c => c.id))
+  };
+};
+
+// --- Meld Diagnostics ---
+// Explains a failed meld in terms a player can act on. Single-group phases get a precise reason;
+// with several groups, the best partial placement shows which group falls short and what's left over.
+
+const colorName = (color: CardColor): string => color.charAt(0) + color.slice(1).toLowerCase();
+
+export const requirementTitle = (req: PhaseRequirement): string => {
+  if (req.type === RequirementType.PAIRS) return `${req.count / 2} Pairs`;
+  return `${REQUIREMENT_INFO[req.type]?.label || req.type} of ${req.count}`;
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Cards whose key differs from the most common one, e.g. the odd one out in a set
+const outliers = (cards: Card[], keyOf: (c: Card) => string | number): { common: Card; odd: Card[] } => {
+  const tally = new Map<string | number, number>();
+  cards.forEach(c => tally.set(keyOf(c), (tally.get(keyOf(c)) || 0) + 1));
+  const commonKey = [...tally.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  return { common: cards.find(c => keyOf(c) === commonKey)!, odd: cards.filter(c => keyOf(c) !== commonKey) };
+};
+
+const diagnoseGroup = (cards: Card[], req: PhaseRequirement, index: number, maxValue: number): MeldIssue[] => {
+  const issues: MeldIssue[] = [];
+  const add = (message: string, offending: Card[] = []) => issues.push({
+    requirementIndex: index,
+    message: `${requirementTitle(req)}: ${message}`,
+    cardIds: offending.map(c => c.id)
+  });
+
+  const naturals = cards.filter(c => c.type === CardType.NUMBER);
+  const wildCount = cards.filter(c => c.type === CardType.WILD).length;
+  const skips = cards.filter(c => c.type === CardType.SKIP);
+  if (skips.length > 0) add("Skip cards can't be used in a phase", skips);
+
+  if (naturals.length > 1) {
+    if (req.type === RequirementType.SET) {
+      const { common, odd } = outliers(naturals, c => c.value);
+      if (odd.length > 0) add(`${common.value} and ${odd[0].value} don't match`, odd);
+    }
+    if (req.type === RequirementType.COLOR || req.type === RequirementType.COLOR_RUN) {
+      const { common, odd } = outliers(naturals, c => c.color);
+      if (odd.length > 0) add(`${colorName(common.color)} and ${colorName(odd[0].color)} cards are mixed`, odd);
+    }
+    if (req.type === RequirementType.EVEN_ODD) {
+      const { common, odd } = outliers(naturals, c => c.value % 2);
+      if (odd.length > 0) add(`${common.value} is ${common.value % 2 ? 'odd' : 'even'} but ${odd[0].value} is ${odd[0].value % 2 ? 'odd' : 'even'}`, odd);
+    }
   }
 
-  if (meld.type === RequirementType.RUN) {
-    return isValidRun(newGroup, meld.cards.length);
+  if (isSequence(req.type)) {
+    const sorted = [...naturals].sort((a, b) => a.value - b.value);
+    const duplicates = sorted.filter((c, i) => i > 0 && sorted[i - 1].value === c.value);
+    if (duplicates.length > 0) add(`${duplicates[0].value} appears twice`, duplicates);
+    if (req.count > maxValue || cards.length > maxValue) add(`runs can't be longer than ${maxValue} cards`);
+
+    const values = [...new Set(sorted.map(c => c.value))];
+    const gaps = values.slice(1).map((v, i) => ({ from: values[i], to: v, wilds: v - values[i] - 1 })).filter(g => g.wilds > 0);
+    const gapWilds = gaps.reduce((sum, g) => sum + g.wilds, 0);
+    if (gapWilds > wildCount) {
+      const wildsText = `you have ${wildCount}`;
+      if (gaps.length === 1) add(`gap between ${gaps[0].from} and ${gaps[0].to} needs ${plural(gaps[0].wilds, 'wild')}, ${wildsText}`);
+      else add(`gaps between ${values[0]} and ${values[values.length - 1]} need ${plural(gapWilds, 'wild')}, ${wildsText}`);
+    }
   }
 
-  return false;
+  if (req.type === RequirementType.PAIRS) {
+    const counts = new Map<number, Card[]>();
+    naturals.forEach(c => counts.set(c.value, [...(counts.get(c.value) || []), c]));
+    const unmatched = [...counts.values()].filter(group => group.length % 2 === 1).map(group => group[0]);
+    if (unmatched.length > wildCount) {
+      const values = unmatched.map(c => c.value).join(', ');
+      add(`${values} ${unmatched.length === 1 ? 'has' : 'have'} no partner, you have ${plural(wildCount, 'wild')}`, unmatched);
+    } else if (cards.length % 2 === 1) {
+      add("pairs need an even number of cards");
+    }
+  }
+
+  if (cards.length < req.count) add(`you have ${plural(cards.length, 'card')}, need ${req.count}`);
+  if (issues.length === 0) add("these cards don't fit together");
+  return issues;
+};
+
+export const diagnoseMeld = (selected: Card[], requirements: PhaseRequirement[], rules: GameRules = CLASSIC_RULES): MeldIssue[] => {
+  if (requirements.length === 1) return diagnoseGroup(selected, requirements[0], 0, rules.maxCardValue);
+
+  const issues: MeldIssue[] = [];
+  const totalRequired = requirements.reduce((sum, r) => sum + r.count, 0);
+  if (selected.length < totalRequired) {
+    issues.push({ requirementIndex: null, message: `This phase needs ${totalRequired} cards, you selected ${selected.length}.`, cardIds: [] });
+  }
+
+  const progress = analyzePhaseProgress(selected, requirements, rules);
+  progress.groups.forEach((group, i) => {
+    if (group.missing > 0) {
+      const fits = group.cards.map(c => (c.type === CardType.WILD ? 'W' : c.value)).join(', ');
+      issues.push({
+        requirementIndex: i,
+        message: `${requirementTitle(group.requirement)}: ${fits ? `has ${plural(group.cards.length, 'card')} (${fits})` : 'no cards yet'}, needs ${group.missing} more`,
+        cardIds: []
+      });
+    }
+  });
+
+  const leftovers = selected.filter(c => !progress.usedCardIds.includes(c.id));
+  const skips = leftovers.filter(c => c.type === CardType.SKIP);
+  const strays = leftovers.filter(c => c.type === CardType.NUMBER);
+  const spareWilds = leftovers.filter(c => c.type === CardType.WILD);
+  if (skips.length > 0) issues.push({ requirementIndex: null, message: "Skip cards can't be used in a phase.", cardIds: skips.map(c => c.id) });
+  if (strays.length > 0) {
+    const values = strays.map(c => c.value).join(', ');
+    issues.push({ requirementIndex: null, message: `${values} ${strays.length === 1 ? "doesn't" : "don't"} fit any group.`, cardIds: strays.map(c => c.id) });
+  }
+  if (progress.complete && spareWilds.length > 0) {
+    issues.push({ requirementIndex: null, message: `${plural(spareWilds.length, 'extra wild')} can't go anywhere.`, cardIds: spareWilds.map(c => c.id) });
+  }
+
+  if (issues.length === 0) issues.push({ requirementIndex: null, message: "These cards don't make this phase.", cardIds: [] });
+  return issues;
 };
 
+// --- Hints ---
+// Searches the whole hand rather than the selection, reusing the memoised hand analysis,
+// so asking for a hint costs the same as a bot planning its turn.
+
+export interface PhaseHint {
+  complete: boolean;
+  cardIds: string[]; // A full phase, or the best partial one when the hand falls short
+  message: string;
+}
+
+export const findPhaseHint = (hand: Card[], requirements: PhaseRequirement[], rules: GameRules = CLASSIC_RULES): PhaseHint => {
+  const progress = analyzePhaseProgress(hand, requirements, rules);
+  if (progress.complete) {
+    return { complete: true, cardIds: progress.usedCardIds, message: "Your hand holds this phase. Lay down the highlighted cards." };
+  }
+
+  const shortfalls = progress.groups
+    .filter(g => g.missing > 0)
+    .map(g => `${plural(g.missing, 'card')} for your ${requirementTitle(g.requirement)}`);
+  const list = shortfalls.length > 1 ? `${shortfalls.slice(0, -1).join(', ')} and ${shortfalls[shortfalls.length - 1]}` : shortfalls[0];
+  return { complete: false, cardIds: progress.usedCardIds, message: `Missing ${list}.` };
+};
+
+// --- Hitting ---
+
+// The value a card stands for inside a meld; wilds use their recorded assignment
+const valueInMeld = (card: Card, meld: Meld): number | undefined => {
+  if (card.type !== CardType.WILD) return card.value;
+  return meld.wilds.find(w => w.cardId === card.id)?.value;
+};
+
+// Returns the meld with the card placed where it belongs, or null if it doesn't fit.
+// Runs only grow at either end and never past 1-12; colour runs also keep to their colour.
+export const addCardToMeld = (card: Card, meld: Meld, rules: GameRules = CLASSIC_RULES): Meld | null => {
+  // Cannot add Skips to melds usually
+  if (card.type === CardType.SKIP) return null;
+  const isWild = card.type === CardType.WILD;
+  const first = meld.cards.find(c => c.type !== CardType.WILD);
+
+  if (isSequence(meld.type)) {
+    const low = valueInMeld(meld.cards[0], meld);
+    const high = valueInMeld(meld.cards[meld.cards.length - 1], meld);
+    if (low === undefined || high === undefined) return null;
+    const runColor = meld.type === RequirementType.COLOR_RUN ? first?.color : undefined;
+
+    if (isWild) {
+      const stand = (value: number): WildAssignment => (runColor ? { cardId: card.id, value, color: runColor } : { cardId: card.id, value });
+      if (high < rules.maxCardValue) return { ...meld, cards: [...meld.cards, card], wilds: [...meld.wilds, stand(high + 1)] };
+      if (low > 1) return { ...meld, cards: [card, ...meld.cards], wilds: [...meld.wilds, stand(low - 1)] };
+      return null;
+    }
+    if (runColor && card.color !== runColor) return null;
+    // The first natural in an all-wild colour run decides its colour
+    const wilds = meld.type === RequirementType.COLOR_RUN && !first ? meld.wilds.map(w => ({ ...w, color: card.color })) : meld.wilds;
+    if (card.value === high + 1 && high < rules.maxCardValue) return { ...meld, cards: [...meld.cards, card], wilds };
+    if (card.value === low - 1 && low > 1) return { ...meld, cards: [card, ...meld.cards], wilds };
+    return null;
+  }
+
+  // One card can't make a new pair, and a third card would break one, so pairs take no hits
+  if (meld.type === RequirementType.PAIRS) return null;
+
+  if (meld.type === RequirementType.SET || meld.type === RequirementType.COLOR || meld.type === RequirementType.EVEN_ODD) {
+    const standFor = (wildId: string, natural: Card): WildAssignment => {
+      if (meld.type === RequirementType.SET) return { cardId: wildId, value: natural.value };
+      if (meld.type === RequirementType.COLOR) return { cardId: wildId, color: natural.color };
+      return { cardId: wildId };
+    };
+
+    if (isWild) {
+      return { ...meld, cards: [...meld.cards, card], wilds: [...meld.wilds, first ? standFor(card.id, first) : { cardId: card.id }] };
+    }
+
+    const matches = !first
+      || (meld.type === RequirementType.SET && first.value === card.value)
+      || (meld.type === RequirementType.COLOR && first.color === card.color)
+      || (meld.type === RequirementType.EVEN_ODD && card.type === CardType.NUMBER && first.value % 2 === card.value % 2);
+    if (!matches) return null;
+    // The first natural in an all-wild meld decides what the wilds stand for
+    const wilds = first ? meld.wilds : meld.wilds.map(w => standFor(w.cardId, card));
+    return { ...meld, cards: [...meld.cards, card], wilds };
+  }
+
+  return null;
+};
+
+// Hitting Validator: Can we add this single card to this existing meld?
+export const canAddToMeld = (card: Card, meld: Meld, rules: GameRules = CLASSIC_RULES): boolean => addCardToMeld(card, meld, rules) !== null;
+
 // --- Scoring ---
-export const calculateScore = (hand: Card[]): number => {
+export const calculateScore = (hand: Card[], scoring: ScoringRules = CLASSIC_RULES.scoring): number => {
   return hand.reduce((acc, card) => {
-    if (card.type === CardType.WILD) return acc + 25;
-    if (card.type === CardType.SKIP) return acc + 15;
-    if (card.value >= 10) return acc + 10;
-    return acc + 5;
+    if (card.type === CardType.WILD) return acc + scoring.wild;
+    if (card.type === CardType.SKIP) return acc + scoring.skip;
+    if (card.value >= scoring.highCardFrom) return acc + scoring.highCard;
+    return acc + scoring.lowCard;
   }, 0);
+};
+
+// Spread a game's worth of phases evenly across a longer list, keeping the first and last
+export const pickPhases = (phases: Phase[], count: number): Phase[] => {
+  if (count >= phases.length) return phases;
+  if (count <= 1) return phases.slice(-1).map(p => ({ ...p, id: 1 }));
+  return Array.from({ length: count }, (_, i) => phases[Math.round((i * (phases.length - 1)) / (count - 1))])
+    .map((p, i) => ({ ...p, id: i + 1 }));
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Card, CardType, GameRules, HandSortMode, PhaseRequirement } from '../types';
+import { analyzePhaseProgress } from './gameUtils';
+
+// --- Hand Order ---
+// How a hand is laid out is each player's own business, so it never goes through the engine.
+// Orders are lists of card ids: cards that arrive later (draws, a new deal) simply go on the end.
+
+export const sortCardsByColor = (cards: Card[]): Card[] => {
+  return [...cards].sort((a, b) => {
+    if (a.color === b.color) return a.value - b.value;
+    return a.color.localeCompare(b.color);
+  });
+};
+
+// Wilds and skips go last, whatever value they carry
+const specialRank = (card: Card): number => (card.type === CardType.WILD ? 1 : card.type === CardType.SKIP ? 2 : 0);
+
+export const sortCardsByValue = (cards: Card[]): Card[] => {
+  return [...cards].sort((a, b) => specialRank(a) - specialRank(b) || a.value - b.value || a.color.localeCompare(b.color));
+};
+
+// The best partial phase first, one requirement after another, then everything else by colour
+export const sortCardsByPhaseGroups = (cards: Card[], requirements: PhaseRequirement[], rules: GameRules): Card[] => {
+  const progress = analyzePhaseProgress(cards, requirements, rules);
+  const grouped = progress.groups.flatMap(g => sortCardsByValue(g.cards));
+  const groupedIds = new Set(grouped.map(c => c.id));
+  return [...grouped, ...sortCardsByColor(cards.filter(c => !groupedIds.has(c.id)))];
+};
+
+// `requirements` is null once the phase is down; phase grouping then falls back to value order
+export const sortHand = (cards: Card[], mode: HandSortMode, requirements: PhaseRequirement[] | null, rules: GameRules): Card[] => {
+  switch (mode) {
+    case 'COLOR':
+      return sortCardsByColor(cards);
+    case 'VALUE':
+      return sortCardsByValue(cards);
+    case 'PHASE':
+      return requirements ? sortCardsByPhaseGroups(cards, requirements, rules) : sortCardsByValue(cards);
+  }
+};
+
+// Lays the hand out in the player's order; cards the order doesn't know yet keep the host's order at the end
+export const arrangeHand = (cards: Card[], order: string[]): Card[] => {
+  const position = new Map(order.map((id, i) => [id, i]));
+  const known = cards.filter(c => position.has(c.id)).sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+  return [...known, ...cards.filter(c => !position.has(c.id))];
+};
+
+// Moves a card to where another one sits, pushing that one along in the direction of travel
+export const moveCard = (order: string[], cardId: string, targetId: string): string[] => {
+  const from = order.indexOf(cardId);
+  const to = order.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return order;
+  const next = [...order];
+  next.splice(from, 1);
+  next.splice(to, 0, cardId);
+  return next;
+};
@@ -0,0 +1,261 @@
+import {
+  ActionRejection, ActionRejectionCode, GameState, MeldIssue, NetworkActionPayload, NetworkActionType,
+  NetworkMessage, PlayerJoinedPayload, StateUpdatePayload, TurnPhase
+} from '../types';
+
+// --- Message Schema ---
+// Everything a peer sends is untrusted until it passes these checks. Each message is
+// matched against the fields its type allows, so nothing malformed reaches the engine.
+
+type FieldType = 'string' | 'text' | 'boolean' | 'integer' | 'string[]' | 'array' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+  nullable?: boolean;
+  oneOf?: readonly string[]; // For string unions and enums
+  items?: Schema; // For arrays of objects
+}
+
+type Schema = Record<string, FieldRule>;
+
+// The rule a field of type V needs: unions of string literals must list their values
+type RuleFor<V> =
+  [V] extends [boolean] ? { type: 'boolean' }
+  : [V] extends [number] ? { type: 'integer' }
+  : [V] extends [string] ? (string extends V ? { type: 'string' | 'text' } : { type: 'string'; oneOf: readonly V[] })
+  : [V] extends [string[]] ? { type: 'string[]' }
+  : [V] extends [(infer E)[]] ? { type: 'array'; items?: SchemaFor<E> }
+  : { type: 'object' };
+
+// A schema written against a payload type: each required field has a required rule and no rule
+// names a field the type lacks, so a payload that passes the schema is a T. A schema may still
+// demand a field the type leaves optional, or leave it out so that sending it is refused.
+type SchemaFor<T> = {
+  [K in keyof T]: RuleFor<T[K]> & ({} extends Pick<T, K> ? { optional?: boolean } : { optional?: false }) & { nullable?: boolean }
+};
+
+export type ParsedMessage = { ok: true; message: NetworkMessage } | { ok: false; reason: string };
+
+const MAX_STRING_LENGTH = 64; // Ids and names
+const MAX_TEXT_LENGTH = 1000; // Messages shown to the player
+const MAX_LIST_LENGTH = 64;
+
+const isObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// Own keys only, so names like "constructor" never match through the prototype
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+const isShortString = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && value.length <= MAX_STRING_LENGTH;
+
+const matchesType = (value: unknown, rule: FieldRule): boolean => {
+  if (value === null) return !!rule.nullable;
+  if (rule.oneOf && !rule.oneOf.includes(value as string)) return false;
+  switch (rule.type) {
+    case 'string':
+      return isShortString(value);
+    case 'text':
+      return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string[]':
+      return Array.isArray(value) && value.length <= MAX_LIST_LENGTH && value.every(isShortString);
+    case 'array':
+      return Array.isArray(value) && (!rule.items || value.every(item => isObject(item) && checkSchema(item, rule.items!) === null));
+    case 'object':
+      return isObject(value);
+  }
+};
+
+// Returns the first problem with `value`, or null when it fits the schema exactly
+const checkSchema = (value: Record<string, unknown>, schema: Schema): string | null => {
+  const unknown = Object.keys(value).find(key => !hasOwn(schema, key));
+  if (unknown) return `unexpected field "${unknown}"`;
+  for (const [key, rule] of Object.entries(schema)) {
+    if (value[key] === undefined) {
+      if (!rule.optional) return `missing field "${key}"`;
+    } else if (!matchesType(value[key], rule)) {
+      return `field "${key}" should be ${rule.oneOf ? `one of ${rule.oneOf.join(', ')}` : rule.type}`;
+    }
+  }
+  return null;
+};
+
+// Checks a payload against the schema written for its type, and hands it back as that type
+const checkPayload = <T,>(payload: Record<string, unknown>, schema: SchemaFor<T>, label: string): { ok: true; payload: T } | { ok: false; reason: string } => {
+  const problem = checkSchema(payload, schema as unknown as Schema);
+  return problem ? { ok: false, reason: `${label}: ${problem}` } : { ok: true, payload: payload as unknown as T };
+};
+
+// The seat comes from the connection, so playerId is only tolerated for the host to compare.
+// START_GAME and NEXT_ROUND are the host's alone and have no client schema.
+const seatFields = (action: NetworkActionType) => ({
+  action: { type: 'string', oneOf: [action] },
+  playerId: { type: 'string', optional: true }
+} as const);
+
+const CLIENT_ACTION_SCHEMAS: Partial<Record<NetworkActionType, SchemaFor<NetworkActionPayload>>> = {
+  DRAW: { ...seatFields('DRAW'), fromDiscard: { type: 'boolean', optional: true } },
+  DISCARD: { ...seatFields('DISCARD'), cardId: { type: 'string' } },
+  MELD: { ...seatFields('MELD'), cardIds: { type: 'string[]' } },
+  HIT: { ...seatFields('HIT'), cardId: { type: 'string' }, meldId: { type: 'string' } }
+};
+
+const PLAYER_JOINED_SCHEMA: SchemaFor<PlayerJoinedPayload> = {
+  name: { type: 'string' },
+  playerId: { type: 'string' },
+  sessionToken: { type: 'string' },
+  spectator: { type: 'boolean', optional: true }
+};
+
+// Keyed by every action and code, so the compiler notices when one is added
+const KNOWN_ACTIONS: Record<NetworkActionType, true> = {
+  DRAW: true, DISCARD: true, MELD: true, HIT: true, START_GAME: true, NEXT_ROUND: true
+};
+const ACTION_TYPES = Object.keys(KNOWN_ACTIONS) as NetworkActionType[];
+
+const KNOWN_REJECTION_CODES: Record<ActionRejectionCode, true> = {
+  INVALID_ACTION: true, WRONG_GAME_STATE: true, UNKNOWN_PLAYER: true, NOT_YOUR_TURN: true, WRONG_TURN_PHASE: true,
+  CARD_NOT_IN_HAND: true, SKIP_PICKUP: true, DECK_EXHAUSTED: true, PHASE_ALREADY_DONE: true, PHASE_NOT_DONE: true,
+  INVALID_MELD: true, MELD_NOT_FOUND: true, CARD_DOES_NOT_FIT: true, MALFORMED_MESSAGE: true, NOT_YOUR_SEAT: true
+};
+const REJECTION_CODES = Object.keys(KNOWN_REJECTION_CODES) as ActionRejectionCode[];
+
+const ACTION_ACCEPTED_SCHEMA: SchemaFor<{ action: NetworkActionType }> = { action: { type: 'string', oneOf: ACTION_TYPES } };
+
+const MELD_ISSUE_SCHEMA: SchemaFor<MeldIssue> = {
+  requirementIndex: { type: 'integer', nullable: true },
+  message: { type: 'text' },
+  cardIds: { type: 'string[]' }
+};
+
+const ACTION_REJECTED_SCHEMA: SchemaFor<ActionRejection> = {
+  code: { type: 'string', oneOf: REJECTION_CODES },
+  message: { type: 'text' },
+  issues: { type: 'array', items: MELD_ISSUE_SCHEMA, optional: true }
+};
+
+const RESYNC_REQUEST_SCHEMA: SchemaFor<{ lastSeq: number }> = { lastSeq: { type: 'integer' } };
+
+const SET_READY_SCHEMA: SchemaFor<{ ready: boolean }> = { ready: { type: 'boolean' } };
+
+const KICKED_SCHEMA: SchemaFor<{ message: string }> = { message: { type: 'text' } };
+
+const SEATED_SCHEMA: SchemaFor<{ playerId: string }> = { playerId: { type: 'string' } };
+
+// Only the top level of a state update is checked: what lies below comes from the host's own engine
+const STATE_UPDATE_SCHEMA: SchemaFor<StateUpdatePayload> = {
+  players: { type: 'array', optional: true },
+  playerChanges: { type: 'array', optional: true },
+  deckCount: { type: 'integer', optional: true },
+  discardPile: { type: 'array', optional: true },
+  currentPlayerIndex: { type: 'integer', optional: true },
+  turnPhase: { type: 'string', oneOf: Object.values(TurnPhase), optional: true },
+  gameState: { type: 'string', oneOf: Object.values(GameState), optional: true },
+  phases: { type: 'array', optional: true },
+  roundWinnerId: { type: 'string', nullable: true, optional: true },
+  roundNumber: { type: 'integer', optional: true },
+  seed: { type: 'text', optional: true },
+  rules: { type: 'object', optional: true },
+  discardPickups: { type: 'array', optional: true },
+  finishedPlayerIds: { type: 'string[]', optional: true },
+  turnDeadline: { type: 'integer', nullable: true, optional: true },
+  turnDuration: { type: 'integer', optional: true },
+  roomCode: { type: 'string', optional: true },
+  lobby: { type: 'object', optional: true },
+  hostGeneration: { type: 'integer', optional: true },
+  successorId: { type: 'string', nullable: true, optional: true },
+  backup: { type: 'object', optional: true }
+};
+
+interface Envelope {
+  type: NetworkMessage['type'];
+  payload: Record<string, unknown>;
+  actionId?: string;
+  seq?: number;
+  sentAt?: number;
+  hash?: string;
+}
+
+const ENVELOPE_SCHEMA: Schema = {
+  type: { type: 'string' },
+  payload: { type: 'object' },
+  actionId: { type: 'string', optional: true },
+  seq: { type: 'integer', optional: true },
+  sentAt: { type: 'integer', optional: true },
+  hash: { type: 'string', optional: true }
+};
+
+const parseEnvelope = (data: unknown, allowed: NetworkMessage['type'][]): Envelope | string => {
+  if (!isObject(data)) return "message is not an object";
+  const problem = checkSchema(data, ENVELOPE_SCHEMA);
+  if (problem) return problem;
+  if (!allowed.includes(data.type as NetworkMessage['type'])) return `unexpected message type "${String(data.type)}"`;
+  return data as unknown as Envelope;
+};
+
+// Lets a refusal be matched to the action it answers, even when the rest of the message is unreadable
+export const readActionId = (data: unknown): string | undefined => (
+  isObject(data) && isShortString(data.actionId) ? data.actionId : undefined
+);
+
+// Messages a client may send to the host
+export const parseClientMessage = (data: unknown): ParsedMessage => {
+  const envelope = parseEnvelope(data, ['PLAYER_JOINED', 'ACTION', 'RESYNC_REQUEST', 'SET_READY']);
+  if (typeof envelope === 'string') return { ok: false, reason: envelope };
+  const { type, payload, actionId } = envelope;
+
+  if (type === 'PLAYER_JOINED') {
+    const checked = checkPayload(payload, PLAYER_JOINED_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload } };
+  }
+  if (type === 'RESYNC_REQUEST') {
+    const checked = checkPayload(payload, RESYNC_REQUEST_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload } };
+  }
+  if (type === 'SET_READY') {
+    const checked = checkPayload(payload, SET_READY_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload } };
+  }
+
+  if (!actionId) return { ok: false, reason: "action has no actionId" };
+  const schema = typeof payload.action === 'string' && hasOwn(CLIENT_ACTION_SCHEMAS, payload.action)
+    ? CLIENT_ACTION_SCHEMAS[payload.action as NetworkActionType]
+    : undefined;
+  if (!schema) return { ok: false, reason: `clients can't send action "${String(payload.action)}"` };
+  const checked = checkPayload(payload, schema, String(payload.action));
+  return checked.ok === false ? checked : { ok: true, message: { type: 'ACTION', payload: checked.payload, actionId } };
+};
+
+// Messages the host may send to a client
+export const parseHostMessage = (data: unknown): ParsedMessage => {
+  const envelope = parseEnvelope(data, ['STATE_UPDATE', 'STATE_DELTA', 'ACTION_ACCEPTED', 'ACTION_REJECTED', 'KICKED', 'SEATED']);
+  if (typeof envelope === 'string') return { ok: false, reason: envelope };
+  const { type, payload, actionId, seq, sentAt, hash } = envelope;
+
+  if (type === 'ACTION_ACCEPTED') {
+    if (!actionId) return { ok: false, reason: `${type}: missing actionId` };
+    const checked = checkPayload(payload, ACTION_ACCEPTED_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload, actionId } };
+  }
+  if (type === 'ACTION_REJECTED') {
+    const checked = checkPayload(payload, ACTION_REJECTED_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload, actionId } };
+  }
+  if (type === 'KICKED') {
+    const checked = checkPayload(payload, KICKED_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload } };
+  }
+  if (type === 'SEATED') {
+    const checked = checkPayload(payload, SEATED_SCHEMA, type);
+    return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload } };
+  }
+  if (type !== 'STATE_UPDATE' && type !== 'STATE_DELTA') return { ok: false, reason: `unexpected message type "${type}"` };
+  if (seq === undefined || sentAt === undefined) return { ok: false, reason: `${type}: missing seq or sentAt` };
+  const checked = checkPayload(payload, STATE_UPDATE_SCHEMA, type);
+  return checked.ok === false ? checked : { ok: true, message: { type, payload: checked.payload, seq, sentAt, hash } };
+};
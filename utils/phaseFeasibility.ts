@@ -0,0 +1,165 @@
+import { GameRules, Phase, PhasePackReport, PhaseRequirement, RequirementType } from '../types';
+import { COLORS, CLASSIC_RULES, MIN_REQUIREMENT_COUNT, REQUIREMENT_INFO, STANDARD_PHASES } from '../constants';
+import { pickPhases } from './gameUtils';
+
+// --- Phase Feasibility ---
+// Generated phases are checked against the deck and hand size before anyone plays them.
+// Anything fixable is repaired in place, and every change is noted for the lobby.
+
+const labelOf = (type: RequirementType): string | undefined => REQUIREMENT_INFO[type]?.label;
+
+// Most cards a single requirement can ever use with this deck
+export const requirementLimit = (type: RequirementType, rules: GameRules = CLASSIC_RULES): number => {
+  switch (type) {
+    case RequirementType.RUN:
+    case RequirementType.COLOR_RUN:
+      return rules.maxCardValue; // Runs can't wrap past the top card
+    case RequirementType.SET:
+      return COLORS.length * rules.copiesPerColor + rules.wildCount;
+    case RequirementType.COLOR:
+      return rules.maxCardValue * rules.copiesPerColor + rules.wildCount;
+    case RequirementType.EVEN_ODD:
+      return Math.ceil(rules.maxCardValue / 2) * COLORS.length * rules.copiesPerColor + rules.wildCount;
+    case RequirementType.PAIRS:
+      return rules.maxCardValue * COLORS.length * rules.copiesPerColor + rules.wildCount;
+  }
+};
+
+// Pairs only come in twos
+const isCountValid = (type: RequirementType, count: number): boolean => (
+  Number.isInteger(count) && count >= MIN_REQUIREMENT_COUNT && (type !== RequirementType.PAIRS || count % 2 === 0)
+);
+
+// A phase is laid down right after drawing, so it can use the whole hand plus one
+export const phaseCardLimit = (rules: GameRules = CLASSIC_RULES): number => rules.handSize + 1;
+
+// Rough weights fitted to simulator clear rates: each extra card in a set costs the most,
+// small color groups are easy but big ones get hard quickly, and groups compete for cards
+export const phaseDifficulty = (phase: Pick<Phase, 'requirements'>): number => {
+  return phase.requirements.reduce((total, r) => {
+    if (r.type === RequirementType.SET) return total + Math.max(r.count / 2, r.count * 2.5 - 4);
+    if (r.type === RequirementType.COLOR) return total + Math.max(r.count / 2, r.count * 1.75 - 5);
+    if (r.type === RequirementType.COLOR_RUN) return total + r.count * 2 - 3;
+    if (r.type === RequirementType.EVEN_ODD) return total + r.count * 0.6;
+    if (r.type === RequirementType.PAIRS) return total + r.count * 0.9;
+    return total + r.count;
+  }, Math.max(0, phase.requirements.length - 1));
+};
+
+// "2 Sets of 3 + 1 Run of 4", matching the standard phase wording
+export const describeRequirements = (requirements: PhaseRequirement[]): string => {
+  const parts: { req: PhaseRequirement; times: number }[] = [];
+  requirements.forEach(req => {
+    const last = parts[parts.length - 1];
+    if (last && last.req.type === req.type && last.req.count === req.count) last.times++;
+    else parts.push({ req, times: 1 });
+  });
+
+  return parts.map(({ req, times }) => {
+    if (req.type === RequirementType.COLOR && parts.length === 1 && times === 1) return `${req.count} Cards of One Color`;
+    if (req.type === RequirementType.EVEN_ODD && parts.length === 1 && times === 1) return `${req.count} Cards All Even or All Odd`;
+    if (req.type === RequirementType.PAIRS) return `${(req.count / 2) * times} Pairs`;
+    return `${times} ${labelOf(req.type)}${times > 1 ? 's' : ''} of ${req.count}`;
+  }).join(' + ');
+};
+
+// Problems that would make a phase impossible or degenerate. Empty means playable.
+export const getPhaseIssues = (phase: Phase, rules: GameRules = CLASSIC_RULES): string[] => {
+  const issues: string[] = [];
+  if (!phase.requirements || phase.requirements.length === 0) return ["has no requirements"];
+
+  phase.requirements.forEach(r => {
+    if (!labelOf(r.type)) {
+      issues.push(`uses an unknown requirement "${r.type}"`);
+    } else if (!isCountValid(r.type, r.count)) {
+      issues.push(`asks for a ${labelOf(r.type)} of ${r.count}`);
+    } else if (r.count > requirementLimit(r.type, rules)) {
+      issues.push(`asks for a ${labelOf(r.type)} of ${r.count}, but at most ${requirementLimit(r.type, rules)} cards can form one`);
+    }
+  });
+
+  const total = phase.requirements.reduce((sum, r) => sum + (r.count || 0), 0);
+  if (total > phaseCardLimit(rules)) issues.push(`needs ${total} cards, but a hand holds at most ${phaseCardLimit(rules)}`);
+  return issues;
+};
+
+// Clamps counts into range and trims the phase to fit a hand. Returns null if nothing usable is left.
+const repairPhase = (phase: Phase, rules: GameRules): { phase: Phase; notes: string[] } | null => {
+  const notes: string[] = [];
+  const label = `"${phase.name}"`;
+  let requirements: PhaseRequirement[] = [];
+
+  (phase.requirements || []).forEach(r => {
+    if (!labelOf(r.type)) {
+      notes.push(`${label}: dropped unknown requirement "${r.type}"`);
+      return;
+    }
+    const limit = requirementLimit(r.type, rules);
+    let count = Math.min(limit, Math.max(MIN_REQUIREMENT_COUNT, Math.round(Number(r.count) || 0)));
+    if (r.type === RequirementType.PAIRS && count % 2 === 1) count += count < limit ? 1 : -1;
+    if (count !== r.count) notes.push(`${label}: ${labelOf(r.type)} of ${r.count} changed to ${count}`);
+    requirements.push({ type: r.type, count });
+  });
+
+  const handLimit = phaseCardLimit(rules);
+  const totalOf = (reqs: PhaseRequirement[]) => reqs.reduce((sum, r) => sum + r.count, 0);
+  const originalTotal = totalOf(requirements);
+  while (requirements.length > 0 && totalOf(requirements) > handLimit) {
+    // Shrink the biggest group first; drop the last one once nothing can shrink
+    const largest = requirements.reduce((best, r, i) => (r.count > requirements[best].count ? i : best), 0);
+    const step = requirements[largest].type === RequirementType.PAIRS ? 2 : 1;
+    if (requirements[largest].count - step >= MIN_REQUIREMENT_COUNT) {
+      requirements = requirements.map((r, i) => (i === largest ? { ...r, count: r.count - step } : r));
+    } else {
+      requirements = requirements.slice(0, -1);
+    }
+  }
+  if (totalOf(requirements) < originalTotal) {
+    notes.push(`${label}: trimmed from ${originalTotal} to ${totalOf(requirements)} cards to fit a ${handLimit}-card hand`);
+  }
+
+  if (requirements.length === 0) return null;
+  // The original wording no longer matches once counts change
+  const description = notes.length > 0 ? describeRequirements(requirements) : phase.description;
+  return { phase: { ...phase, description, requirements }, notes };
+};
+
+// Repairs every phase, dropping the ones that can't be saved
+export const repairPhases = (phases: Phase[], rules: GameRules = CLASSIC_RULES): PhasePackReport => {
+  const report: PhasePackReport = { phases: [], adjustments: [] };
+  phases.forEach(phase => {
+    const repaired = repairPhase(phase, rules);
+    if (!repaired) {
+      report.adjustments.push(`"${phase.name}": removed, it had no usable requirements`);
+      return;
+    }
+    report.phases.push(repaired.phase);
+    report.adjustments.push(...repaired.notes);
+  });
+  return report;
+};
+
+// Makes the pack exactly `count` phases long and never easier than the phase before
+export const completePhasePack = (report: PhasePackReport, count: number): PhasePackReport => {
+  const adjustments = [...report.adjustments];
+  let phases = report.phases;
+
+  if (phases.length > count) {
+    adjustments.push(`Kept the first ${count} of ${phases.length} phases`);
+    phases = phases.slice(0, count);
+  }
+  if (phases.length < count) {
+    const fillers = pickPhases(STANDARD_PHASES, count).slice(phases.length);
+    adjustments.push(`Filled ${fillers.length} missing phase${fillers.length === 1 ? '' : 's'} with standard ones`);
+    phases = [...phases, ...fillers];
+  }
+
+  // Stable sort, so equally hard phases keep their original order
+  const ordered = phases
+    .map((phase, index) => ({ phase, index }))
+    .sort((a, b) => phaseDifficulty(a.phase) - phaseDifficulty(b.phase) || a.index - b.index)
+    .map(({ phase }) => phase);
+  if (ordered.some((phase, i) => phase !== phases[i])) adjustments.push("Reordered phases so they get progressively harder");
+
+  return { phases: ordered.map((phase, i) => ({ ...phase, id: i + 1 })), adjustments };
+};
@@ -0,0 +1,47 @@
+// --- Seeded Randomness ---
+// Everything random in a game (deals, reshuffles, bot choices) is derived from the game seed,
+// so a seed plus the same actions always replays the same game.
+
+export type RandomFn = () => number;
+
+export interface Rng {
+  next: RandomFn;
+  // Current internal state, stored in the snapshot so the stream can be resumed
+  state: () => number;
+}
+
+// Mulberry32: tiny, fast and good enough for shuffling cards.
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = Math.imul(s ^ (s >>> 15), 1 | s);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => s
+  };
+};
+
+// FNV-1a hash so human-friendly seed strings map onto a 32-bit PRNG state.
+export const hashSeed = (seed: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+export const generateSeed = (): string => Math.random().toString(36).substring(2, 8).toUpperCase();
+
+// Fisher-Yates shuffle driven by the supplied random source.
+export const shuffle = <T>(items: T[], random: RandomFn): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,95 @@
+import { GameSnapshot, Player, PlayerChange, StateUpdatePayload } from '../types';
+import { getHandSize, visibleDiscards } from './gameEngine';
+import { hashSeed } from './random';
+
+// --- State Sync ---
+// The host remembers the last view it sent each client and afterwards sends only what changed.
+// Fields are compared whole, so a delta carries a field's complete new value. Players are the
+// exception: they change every turn, so they go seat by seat and field by field.
+
+const sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Each seat's changed fields, or null when the whole list has to go: seats came, went or moved,
+// or a field was dropped, which a change can't express
+const diffPlayers = (prev: Player[], next: Player[]): PlayerChange[] | null => {
+  if (prev.length !== next.length || prev.some((p, i) => p.id !== next[i].id)) return null;
+  const changes: PlayerChange[] = [];
+  for (let i = 0; i < next.length; i++) {
+    const before = prev[i];
+    const after = next[i];
+    if ((Object.keys(before) as (keyof Player)[]).some(key => before[key] !== undefined && after[key] === undefined)) return null;
+    const change: Record<string, unknown> = {};
+    (Object.keys(after) as (keyof Player)[]).forEach(key => {
+      if (!sameValue(before[key], after[key])) change[key] = after[key];
+    });
+    if (Object.keys(change).length > 0) changes.push({ ...change, id: after.id });
+  }
+  return changes;
+};
+
+// The fields of `next` that differ from `prev`. A field missing from `next` stays as the client has it.
+export const diffStateView = (prev: StateUpdatePayload, next: StateUpdatePayload): StateUpdatePayload => {
+  const delta: Record<string, unknown> = {};
+  (Object.keys(next) as (keyof StateUpdatePayload)[]).forEach(key => {
+    if (key === 'players' && prev.players && next.players) {
+      const changes = diffPlayers(prev.players, next.players);
+      if (changes === null) delta.players = next.players;
+      else if (changes.length > 0) delta.playerChanges = changes;
+    } else if (!sameValue(prev[key], next[key])) {
+      delta[key] = next[key];
+    }
+  });
+  return delta as StateUpdatePayload;
+};
+
+// The client's side of a delta's playerChanges
+export const applyPlayerChanges = (players: Player[], changes: PlayerChange[]): Player[] => players.map(p => {
+  const change = changes.find(c => c.id === p.id);
+  return change ? { ...p, ...change } : p;
+});
+
+export const isEmptyDelta = (delta: StateUpdatePayload): boolean => Object.keys(delta).length === 0;
+
+// --- State Hashing ---
+// Host and clients hash the same public view of the game. A client whose hash differs from the
+// one the host sent has drifted, and asks for the full view again.
+
+// JSON with sorted keys, so the same state always gives the same text however it was built
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Everything every seat can see: no hands, no draw pile order, no seed
+export const hashPublicState = (snapshot: GameSnapshot): string => {
+  const view = {
+    gameState: snapshot.gameState,
+    turnPhase: snapshot.turnPhase,
+    currentPlayerIndex: snapshot.currentPlayerIndex,
+    roundNumber: snapshot.roundNumber,
+    roundWinnerId: snapshot.roundWinnerId,
+    deckCount: snapshot.deck.length,
+    topDiscard: visibleDiscards(snapshot.discardPile),
+    phases: snapshot.phases,
+    rules: snapshot.rules,
+    discardPickups: snapshot.discardPickups,
+    finishedPlayerIds: snapshot.finishedPlayerIds,
+    players: snapshot.players.map(p => ({
+      id: p.id,
+      name: p.name,
+      handCount: getHandSize(p),
+      melds: p.melds,
+      phaseIndex: p.phaseIndex,
+      hasLaidDownPhase: !!p.hasLaidDownPhase,
+      score: p.score,
+      isSkipped: !!p.isSkipped
+    }))
+  };
+  return hashSeed(canonicalJson(view)).toString(16).padStart(8, '0');
+};